@@ -1,171 +1,1090 @@
+import {
+  getIn,
+  setIn,
+  unsetIn,
+  hasPath,
+  splitPath,
+  ancestorPaths,
+  isDescendantPath
+} from './paths';
+import { deepEqual, isPlainObject } from './deepEqual';
+import type { Path, PathValue, ArrayPath, ArrayItem } from './paths';
+
+export type { Path, PathValue, ArrayPath, ArrayItem };
+
 export type Field<T> = {
   value: T;
+  /** First of `errors`, or `null` when there are none. */
   error: string | null;
+  errors: string[];
+  warnings: string[];
   isTouched: boolean;
+  isDirty: boolean;
 };
 export type FieldSet<T extends Values> = {
   [K in keyof T]: Field<T[K]>;
 };
+export type PathFieldSet<T extends Values, P extends Path<T>> = {
+  [K in P]: Field<PathValue<T, K>>;
+};
+export type FieldArrayItem<T> = Field<T> & { key: string };
+type FieldState = Omit<Field<unknown>, 'value' | 'error' | 'isDirty'>;
 
 export type FieldSubscriber<T> = (field: Field<T>) => void;
 export type FieldUnsubscribeFn = () => void;
+/**
+ * Called after field state changes with the affected paths, including the
+ * ancestors of changed fields.
+ */
+export type FormSubscriber = (keys: string[]) => void;
 
 export type EventHandler<TArgs extends unknown[] = []> = (
   ...args: TArgs
 ) => void;
 export type EventUnsubscribeFn = () => void;
 export type Values = Record<string, unknown>;
-export type Errors<T extends Values> = Partial<Record<keyof T, string>>;
+/**
+ * Key of messages that concern the form as a whole rather than one field,
+ * e.g. server errors or cross-field rules.
+ */
+export const ROOT_KEY = '$root';
+export type RootKey = typeof ROOT_KEY;
+export type Messages = string | string[];
+export type Errors<T extends Values> = Partial<
+  Record<Path<T> | RootKey, Messages>
+>;
+/**
+ * Same shape as `Errors`, but warnings never block a submit.
+ */
+export type Warnings<T extends Values> = Partial<
+  Record<Path<T> | RootKey, Messages>
+>;
 export type EventMap<T extends Values> = {
-  change: [key: keyof T, value: T[keyof T]];
+  change: [key: Path<T>, value: PathValue<T, Path<T>>];
   changeMany: [payload: Partial<T>];
-  touch: [key: keyof T];
-  touchMany: [keys: (keyof T)[]];
+  input: [key: Path<T>, input: unknown];
+  touch: [key: Path<T>];
+  touchMany: [keys: Path<T>[]];
+  append: [key: ArrayPath<T>, item: ArrayItem<T, ArrayPath<T>>];
+  insert: [key: ArrayPath<T>, index: number, item: ArrayItem<T, ArrayPath<T>>];
+  remove: [key: ArrayPath<T>, index: number];
+  move: [key: ArrayPath<T>, from: number, to: number];
+  swap: [key: ArrayPath<T>, indexA: number, indexB: number];
+  replace: [key: ArrayPath<T>, items: PathValue<T, ArrayPath<T>>];
+  addField: [key: Path<T>, initial: PathValue<T, Path<T>>];
+  removeField: [key: Path<T>, options?: RemoveFieldOptions];
   reset: [snapshot?: T];
+  undo: [];
+  redo: [];
+  historyChange: [canUndo: boolean, canRedo: boolean];
   errors: [errors: Errors<T>];
+  warnings: [warnings: Warnings<T>];
   validate: [];
-  validated: [values: T, errors: Errors<T> | null];
+  validated: [
+    values: T,
+    errors: Errors<T> | null,
+    warnings: Warnings<T> | null
+  ];
   validationStart: [];
+  validatingChange: [isValidating: boolean];
+  submit: [];
+  submitStart: [];
+  submitted: [values: T, errors: Errors<T> | null];
+  dispose: [];
 };
 
+/**
+ * Receives every event along with its name, registered with `on('*', ...)`.
+ */
+export type WildcardHandler<T extends Values> = (
+  ...args: {
+    [E in keyof EventMap<T>]: [event: E, ...args: EventMap<T>[E]];
+  }[keyof EventMap<T>]
+) => void;
+
 export type EmitFn<T extends Values> = <K extends keyof EventMap<T>>(
   event: K,
   ...args: EventMap<T>[K]
 ) => void;
 
+/**
+ * Runs before handlers of an event. Calling `next` passes the event on,
+ * optionally with different arguments; not calling it cancels the event.
+ */
+export type EventMiddleware<T extends Values, E extends keyof EventMap<T>> = (
+  args: EventMap<T>[E],
+  next: (args?: EventMap<T>[E]) => void
+) => void;
+
+export type SubmitHandler<T extends Values> = (
+  values: T
+) => void | Promise<void>;
+export type InvalidSubmitHandler<T extends Values> = (
+  errors: Errors<T>,
+  values: T
+) => void | Promise<void>;
+
+export type EqualityFn = (a: unknown, b: unknown) => boolean;
+
+export type ComputedOptions = {
+  /**
+   * Whether the computed value is part of the values passed to validators and
+   * submit handlers. Defaults to `true`.
+   */
+  includeInSubmit?: boolean;
+};
+type Computed<T extends Values> = {
+  deps: string[];
+  compute: (values: T) => unknown;
+  includeInSubmit: boolean;
+};
+
+/**
+ * Converts between what an input shows and the value kept in the form.
+ * `parse` may throw to reject input; the message of the error becomes the
+ * field's error.
+ */
+export type FieldTransform<V, I = string> = {
+  parse(input: I): V;
+  format(value: V): I;
+};
+
+// Input shown instead of the formatted value, e.g. while it fails to parse
+type PendingInput = {
+  input: unknown;
+  error: string | null;
+};
+
+export type RemoveFieldOptions = {
+  /**
+   * Keep the current value aside so that adding the field again restores it
+   * instead of using the given initial value.
+   */
+  keepValue?: boolean;
+};
+
+export type ValidationMode =
+  | 'onSubmit'
+  | 'onBlur'
+  | 'onChange'
+  | 'onTouched'
+  | 'all';
+export type ReValidateMode = 'onSubmit' | 'onBlur' | 'onChange';
+
+/**
+ * What happens to an event emitted while it has no handlers: `'all'` queues
+ * it for the next handler, `'none'` drops it, `{ limit }` queues at most
+ * `limit` of the latest ones, and `'last'` keeps the latest one (handled or
+ * not) and replays it to every handler registered later.
+ */
+export type ReplayPolicy = 'all' | 'none' | 'last' | { limit: number };
+
+// Status events the form emits itself report what just happened, so a
+// handler registered later must not receive stale ones
+const DEFAULT_REPLAY: { [E in keyof EventMap<Values>]?: ReplayPolicy } = {
+  validated: 'none',
+  validationStart: 'none',
+  validatingChange: 'none',
+  submitStart: 'none',
+  submitted: 'none'
+};
+
+export type PendingEvent<T extends Values> = {
+  [E in keyof EventMap<T>]: { event: E; args: EventMap<T>[E] };
+}[keyof EventMap<T>];
+
+export type FormOptions = {
+  /**
+   * Compares current values with `initialValues` to tell which fields are
+   * dirty. Defaults to structural equality.
+   */
+  isEqual?: EqualityFn;
+  /**
+   * When fields are validated before the form is first submitted. Defaults
+   * to `'onSubmit'`.
+   */
+  mode?: ValidationMode;
+  /**
+   * When fields are validated after the form has been submitted. Defaults
+   * to `'onChange'`.
+   */
+  reValidateMode?: ReValidateMode;
+  /**
+   * Replay policies of events emitted before they have handlers. Defaults to
+   * `'none'` for the status events `validated`, `validationStart`,
+   * `validatingChange`, `submitStart` and `submitted`, and to `'all'` for
+   * every other event.
+   */
+  replay?: { [E in keyof EventMap<Values>]?: ReplayPolicy };
+};
+
+export const SNAPSHOT_VERSION = 1;
+
+/**
+ * JSON-safe form state, e.g. rendered on the server and hydrated on the
+ * client.
+ */
+export type FormSnapshot<T extends Values> = {
+  version: typeof SNAPSHOT_VERSION;
+  values: T;
+  /** Baseline for dirty tracking. */
+  initialValues: T;
+  errors: Errors<T>;
+  warnings: Warnings<T>;
+  touched: string[];
+  /** Fields removed with `removeField`. */
+  removed: string[];
+  isSubmitted: boolean;
+  submitCount: number;
+};
+
 export type DebugMode = boolean | DebugModeConfig;
 export type DebugModeConfig = {
   only: (keyof EventMap<Values>)[];
 };
 
+/**
+ * What a validator may return besides a plain map of errors, to report
+ * warnings along with (or instead of) errors.
+ */
+export type ValidationOutput<T extends Values> = {
+  errors?: Errors<T> | null;
+  warnings?: Warnings<T> | null;
+};
+export type ValidatorResult<T extends Values> =
+  | Errors<T>
+  | ValidationOutput<T>
+  | null;
+
 type Validator<T extends Values> = (
   values: T,
-  syncErrors?: Errors<T>
-) => Errors<T> | null | Promise<Errors<T> | null>;
+  syncErrors?: Errors<T>,
+  signal?: AbortSignal
+) => ValidatorResult<T> | Promise<ValidatorResult<T>>;
+
+export type FieldValidator<V, T extends Values> = (
+  value: V,
+  values: T,
+  signal: AbortSignal
+) => FieldValidationResult | Promise<FieldValidationResult>;
+type FieldValidationResult =
+  | Messages
+  | { errors?: Messages | null; warnings?: Messages | null }
+  | null
+  | undefined;
+export type ValidatorOptions = {
+  /**
+   * Delay in milliseconds before the validator runs after a field change or
+   * touch. Validation of the whole form (e.g. on submit) runs it right away.
+   */
+  debounce?: number;
+};
+export type FormValidatorOptions<T extends Values> = ValidatorOptions & {
+  /** Fields the validator rejects when left empty, see `isRequired()`. */
+  required?: Path<T>[];
+};
+export type FieldValidatorOptions = ValidatorOptions & {
+  /** Whether the validator rejects an empty value, see `isRequired()`. */
+  required?: boolean;
+};
+type ValidationResult<T extends Values> = {
+  values: T;
+  errors: Errors<T> | null;
+  warnings: Warnings<T> | null;
+};
+type SavedState<T extends Values> = {
+  values: T;
+  initialValues: T;
+  fieldStates: Map<string, FieldState>;
+  itemKeys: Map<string, string[]>;
+  removedFields: Set<string>;
+  keptValues: Map<string, unknown>;
+  inputs: Map<string, PendingInput>;
+  blurredFields: Set<string>;
+};
+type ValidationMessages<T extends Values> = {
+  errors: Errors<T>;
+  warnings: Warnings<T>;
+};
+type MessageKind = keyof ValidationMessages<Values>;
+
+const toMessages = (messages: Messages | null | undefined): string[] =>
+  messages ? ([] as string[]).concat(messages).filter(Boolean) : [];
+
+const sameMessages = (a: string[], b: string[]): boolean =>
+  a.length === b.length && a.every((message, i) => message === b[i]);
+
+// Tells `{ errors, warnings }` apart from a map of field errors, whose values
+// are messages rather than maps
+const isValidationOutput = <T extends Values>(
+  result: ValidatorResult<T>
+): result is ValidationOutput<T> => {
+  const entries = Object.entries(result ?? {});
+  return (
+    entries.length > 0 &&
+    entries.every(
+      ([key, value]) =>
+        (key === 'errors' || key === 'warnings') &&
+        (value == null || isPlainObject(value))
+    )
+  );
+};
+
+const mergeResult = <T extends Values>(
+  target: ValidationMessages<T>,
+  result: ValidatorResult<T>
+): void => {
+  if (!result) return;
+
+  if (isValidationOutput(result)) {
+    Object.assign(target.errors, result.errors);
+    Object.assign(target.warnings, result.warnings);
+  } else {
+    Object.assign(target.errors, result);
+  }
+};
+
+let lastItemKey = 0;
+const generateItemKey = (): string => `item-${++lastItemKey}`;
 
 export class Form<T extends Values> {
   public static debugMode: DebugMode = false;
   public initialValues: T;
-  public isValidating: boolean = false;
-  private fields: FieldSet<T>;
-  private fieldSubscribers: Map<keyof T, Set<FieldSubscriber<T[keyof T]>>> =
+  public isSubmitting: boolean = false;
+  public isSubmitted: boolean = false;
+  public submitCount: number = 0;
+  public submitError: unknown = null;
+  private values: T;
+  private fieldStates: Map<string, FieldState> = new Map();
+  private itemKeys: Map<string, string[]> = new Map();
+  private computed: Map<string, Computed<T>> = new Map();
+  private dependencies: Map<string, string[]> = new Map();
+  private removedFields: Set<string> = new Set();
+  private keptValues: Map<string, unknown> = new Map();
+  private transforms: Map<string, FieldTransform<unknown, unknown>> = new Map();
+  private inputs: Map<string, PendingInput> = new Map();
+  // Fields that have lost focus (`touch`), whereas `isTouched` is also set
+  // by changes
+  private blurredFields: Set<string> = new Set();
+  private batchDepth: number = 0;
+  private pendingNotifications: Set<string> = new Set();
+  private fieldSubscribers: Map<string, Set<FieldSubscriber<unknown>>> =
     new Map();
+  private formSubscribers: Set<FormSubscriber> = new Set();
   private validators: Validator<T>[] = [];
+  private requiredFields: Set<string> = new Set();
+  private fieldValidators: Map<string, FieldValidator<unknown, T>[]> =
+    new Map();
+  private validationController: AbortController | null = null;
+  private latestValidation: Promise<ValidationResult<T>> | null = null;
+  private fieldValidationControllers: Map<string, AbortController> = new Map();
+  private validatorDebounces: WeakMap<object, number> = new WeakMap();
+  private wasValidating: boolean = false;
+  private isDisposed: boolean = false;
+  private isEqual: EqualityFn;
+  private mode: ValidationMode;
+  private hasDefaultMode: boolean;
+  private reValidateMode: ReValidateMode;
+  private replay: { [E in keyof EventMap<Values>]?: ReplayPolicy };
 
   private eventHandlers: Map<
     keyof EventMap<T>,
     Set<(...args: EventMap<T>[keyof EventMap<T>]) => void>
   > = new Map();
 
+  private wildcardHandlers: Set<WildcardHandler<T>> = new Set();
+
+  private middlewares: Map<
+    keyof EventMap<T>,
+    Set<EventMiddleware<T, keyof EventMap<T>>>
+  > = new Map();
+
   private eventQueue: Map<
     keyof EventMap<T>,
     Array<EventMap<T>[keyof EventMap<T>]>
   > = new Map();
 
-  constructor(initialValues: T) {
+  constructor(initialValues: T, options: FormOptions = {}) {
     this.initialValues = initialValues;
-    this.fields = this.valuesToFields(initialValues);
+    this.values = initialValues;
+    this.isEqual = options.isEqual ?? deepEqual;
+    this.mode = options.mode ?? 'onSubmit';
+    this.hasDefaultMode = options.mode === undefined;
+    this.reValidateMode = options.reValidateMode ?? 'onChange';
+    this.replay = { ...DEFAULT_REPLAY, ...options.replay };
 
     // Set up validation handler
     this.on('validate', () => {
-      this.runValidation();
+      this.validateInBackground();
+    });
+
+    this.on('submit', () => {
+      this.submit();
     });
   }
 
+  /**
+   * Whether a validation run or a field validation (including a debounced
+   * one waiting for its delay) is in progress.
+   */
+  get isValidating(): boolean {
+    return (
+      this.validationController !== null ||
+      this.fieldValidationControllers.size > 0
+    );
+  }
+
+  /**
+   * Registers a form-level validator. Validators declaring a second
+   * parameter receive errors of the synchronous pure validators; the third
+   * one is an `AbortSignal` that is aborted once the run becomes stale.
+   */
   registerValidator(
     validator: (
       values: T,
-      syncErrors?: Errors<T>
-    ) => Errors<T> | null | Promise<Errors<T> | null>
+      syncErrors?: Errors<T>,
+      signal?: AbortSignal
+    ) => ValidatorResult<T> | Promise<ValidatorResult<T>>,
+    options: FormValidatorOptions<T> = {}
   ): void {
     this.validators.push(validator);
+    this.setDebounce(validator, options);
+    options.required?.forEach((key) => this.requiredFields.add(key));
+  }
+
+  /**
+   * Registers a validator scoped to a single field. It runs whenever that
+   * field changes or is touched and only sets that field's error. The
+   * `validate` event runs it along with form-level validators.
+   */
+  registerFieldValidator<P extends Path<T>>(
+    key: P,
+    validator: FieldValidator<PathValue<T, P>, T>,
+    options: FieldValidatorOptions = {}
+  ): void {
+    if (!this.fieldValidators.has(key)) {
+      this.fieldValidators.set(key, []);
+    }
+
+    this.fieldValidators
+      .get(key)!
+      .push(validator as FieldValidator<unknown, T>);
+    this.setDebounce(validator, options);
+    if (options.required) this.requiredFields.add(key);
   }
 
-  getValue<K extends keyof T>(key: K): T[K] {
-    return this.fields[key].value;
+  /**
+   * Registers a read-only field whose value is derived from other values.
+   * It is recomputed whenever one of `deps` changes and can be subscribed to
+   * like any other field.
+   */
+  registerComputed<P extends Path<T>>(
+    key: P,
+    deps: Path<T>[],
+    compute: (values: T) => PathValue<T, P>,
+    options: ComputedOptions = {}
+  ): void {
+    this.computed.set(key, {
+      deps,
+      compute,
+      includeInSubmit: options.includeInSubmit ?? true
+    });
+    this.initialValues = setIn(
+      this.initialValues,
+      key,
+      compute(this.initialValues)
+    );
+    this.updateComputed(key);
+  }
+
+  /**
+   * Declares that the validity of `key` depends on `deps`, e.g.
+   * `confirmPassword` on `password`. When one of them changes, `key` is
+   * revalidated if the validation mode validates it on change and it has
+   * been touched or has an error; otherwise its messages are cleared.
+   */
+  registerDependencies<P extends Path<T>>(key: P, deps: Path<T>[]): void {
+    this.dependencies.set(key, [
+      ...(this.dependencies.get(key) ?? []),
+      ...deps
+    ]);
+  }
+
+  /**
+   * Makes `input` events of `key` go through `transform.parse`, and
+   * `getInput()` return the value formatted by `transform.format`.
+   */
+  registerTransform<P extends Path<T>, I = string>(
+    key: P,
+    transform: FieldTransform<PathValue<T, P>, I>
+  ): void {
+    this.transforms.set(key, transform as FieldTransform<unknown, unknown>);
+  }
+
+  /**
+   * Whether a validator registered with the `required` option rejects an
+   * empty value of `key`.
+   */
+  isRequired<P extends Path<T>>(key: P): boolean {
+    return this.requiredFields.has(key);
+  }
+
+  getValue<P extends Path<T>>(key: P): PathValue<T, P> {
+    return getIn(this.values, key) as PathValue<T, P>;
   }
 
   getValues(): T {
-    return Object.entries(this.fields).reduce((acc, [key, field]) => {
-      acc[key as keyof T] = field.value;
-      return acc;
-    }, {} as T);
+    return this.values;
+  }
+
+  /**
+   * Value to show in the input of `key`: the formatted value, or the input
+   * as entered while it doesn't parse or differs from its formatted form.
+   */
+  getInput<P extends Path<T>>(key: P): unknown {
+    const pending = this.inputs.get(key);
+    if (pending) return pending.input;
+
+    const transform = this.transforms.get(key);
+    const value = this.getValue(key);
+    return transform ? transform.format(value) : value;
+  }
+
+  /**
+   * Sets the value of `key` from input, parsed by the field's transform if
+   * it has one. Input that fails to parse leaves the value unchanged and
+   * sets the parse error as the field's error.
+   */
+  setInput<P extends Path<T>>(key: P, input: unknown): void {
+    const transform = this.transforms.get(key);
+    if (!transform) {
+      this.emit('change', key, input as PathValue<T, P>);
+      return;
+    }
+
+    let value: PathValue<T, P>;
+    try {
+      value = transform.parse(input) as PathValue<T, P>;
+    } catch (error) {
+      const message =
+        error instanceof Error && error.message
+          ? error.message
+          : 'Invalid value';
+
+      this.inputs.set(key, { input, error: message });
+      this.updateFieldState(key, { errors: [message], isTouched: true });
+      this.notify(key);
+      return;
+    }
+
+    if (this.inputs.get(key)?.error) {
+      this.inputs.delete(key);
+      this.setMessages('errors', key, null);
+    }
+    this.emit('change', key, value);
+
+    // Keep what is being typed, e.g. a trailing decimal separator, until
+    // the field is touched
+    if (!this.isEqual(transform.format(value), input)) {
+      this.inputs.set(key, { input, error: null });
+      this.notify(key);
+    }
   }
 
-  get<K extends keyof T>(key: K): Field<T[K]> {
-    return this.fields[key];
+  get<P extends Path<T>>(key: P): Field<PathValue<T, P>> {
+    const state = this.fieldStates.get(key);
+    const errors = state?.errors ?? [];
+
+    return {
+      value: this.getValue(key),
+      error: errors[0] ?? null,
+      errors,
+      warnings: state?.warnings ?? [],
+      // A nested object counts as touched once any of its leaves is
+      isTouched: Boolean(state?.isTouched) || this.hasTouchedDescendant(key),
+      isDirty: !this.isEqual(this.getValue(key), getIn(this.initialValues, key))
+    };
+  }
+
+  isDirty(): boolean {
+    return !this.isEqual(this.values, this.initialValues);
   }
 
-  setValue<K extends keyof T>(key: K, value: T[K]): void {
-    if (key in this.fields && this.fields[key].value !== value) {
-      this.fields[key].value = value;
-      this.fields[key].error = null;
-      this.fields[key].isTouched = true;
-      this.notify(key, this.fields[key]);
+  /**
+   * Errors not tied to any field, set under `ROOT_KEY`.
+   */
+  getRootErrors(): string[] {
+    return this.fieldStates.get(ROOT_KEY)?.errors ?? [];
+  }
+
+  /**
+   * Paths of values that differ from `initialValues`. Nested objects are
+   * compared field by field, arrays and other values as a whole.
+   */
+  getDirtyKeys(): Path<T>[] {
+    return this.diffPaths(this.values, this.initialValues, '') as Path<T>[];
+  }
+
+  /**
+   * Paths that have been touched themselves, not through a nested field.
+   */
+  getTouchedKeys(): Path<T>[] {
+    return Array.from(this.fieldStates)
+      .filter(([, state]) => state.isTouched)
+      .map(([path]) => path as Path<T>);
+  }
+
+  /**
+   * Only the dirty values, keeping their nesting, e.g. for a PATCH payload.
+   */
+  getDirtyValues(): Partial<T> {
+    return this.getDirtyKeys().reduce(
+      (acc, key) => setIn(acc, key, this.getValue(key)),
+      {} as Partial<T>
+    );
+  }
+
+  setValue<P extends Path<T>>(key: P, value: PathValue<T, P>): void {
+    if (this.isComputed(key)) return;
+
+    if (hasPath(this.values, key) && this.getValue(key) !== value) {
+      this.values = setIn(this.values, key, value);
+      this.dropItemKeys(key);
+      this.handleChange(key);
     }
   }
 
   setValues(newValues: Partial<T>): void {
-    (Object.keys(newValues) as (keyof T)[]).forEach((key) => {
-      this.setValue(key, newValues[key] as T[keyof T]);
+    (Object.keys(newValues) as Path<T>[]).forEach((key) => {
+      this.setValue(key, newValues[key] as PathValue<T, Path<T>>);
+    });
+  }
+
+  /**
+   * Adds a field that is not part of the values yet, e.g. a section of a
+   * conditional form. `initial` also becomes its baseline for dirty tracking.
+   */
+  addField<P extends Path<T>>(key: P, initial: PathValue<T, P>): void {
+    if (hasPath(this.values, key)) return;
+
+    const value = this.keptValues.has(key) ? this.keptValues.get(key) : initial;
+    this.keptValues.delete(key);
+    this.removedFields.forEach((path) => {
+      if (path === key || isDescendantPath(path, key)) {
+        this.removedFields.delete(path);
+      }
+    });
+
+    this.initialValues = setIn(this.initialValues, key, initial);
+    this.values = setIn(this.values, key, value);
+    this.restartValidation();
+    this.notify(key, true);
+    this.recomputeDependents(key);
+  }
+
+  /**
+   * Removes a field along with its state. It is left out of `getValues()`
+   * and validation until added again. Items of field arrays, e.g.
+   * `'items.1'`, are removed with `remove()` instead, so that later items
+   * keep their state; `keepValue` does not apply to them.
+   */
+  removeField<P extends Path<T>>(
+    key: P,
+    options: RemoveFieldOptions = {}
+  ): void {
+    if (!hasPath(this.values, key)) return;
+
+    const segments = splitPath(key);
+    const parent = segments.slice(0, -1).join('.');
+    if (segments.length > 1 && this.getArray(parent)) {
+      this.remove(
+        parent as ArrayPath<T>,
+        Number(segments[segments.length - 1])
+      );
+      return;
+    }
+
+    if (options.keepValue) {
+      this.keptValues.set(key, this.getValue(key));
+    }
+    this.removedFields.add(key);
+
+    this.initialValues = unsetIn(this.initialValues, key);
+    this.values = unsetIn(this.values, key);
+    this.abortFieldValidation(key);
+    this.restartValidation();
+    this.fieldStates.forEach((_state, path) => {
+      if (path === key || isDescendantPath(path, key)) {
+        this.fieldStates.delete(path);
+      }
     });
+    this.blurredFields.forEach((path) => {
+      if (path === key || isDescendantPath(path, key)) {
+        this.blurredFields.delete(path);
+      }
+    });
+    this.dropItemKeys(key);
+    this.dropInputs(key);
+    this.notify(key, true);
+    this.recomputeDependents(key);
   }
 
-  touch<K extends keyof T>(key: K): void {
-    const field = this.fields[key];
-    if (!field.isTouched) {
-      field.isTouched = true;
-      this.notify(key, field);
+  touch<P extends Path<T>>(key: P): void {
+    // Show input that parsed in its formatted form
+    if (this.inputs.get(key)?.error === null) {
+      this.inputs.delete(key);
+      this.notify(key);
+    }
+
+    if (hasPath(this.values, key) && !this.fieldStates.get(key)?.isTouched) {
+      this.updateFieldState(key, { isTouched: true });
+      this.notify(key);
+    }
+    if (hasPath(this.values, key)) {
+      this.blurredFields.add(key);
+    }
+
+    const scope = this.validationScope('blur', key);
+    if (scope) {
+      this.validateField(key, scope === 'all');
     }
   }
 
-  setError<K extends keyof T>(key: K, error: string | null): void {
-    if (this.fields[key].error !== error) {
-      this.fields[key].error = error;
-      this.notify(key, this.fields[key]);
+  setError<P extends Path<T> | RootKey>(key: P, error: Messages | null): void {
+    this.setMessages('errors', key, error);
+  }
+
+  setErrors(newErrors: Errors<T>): void {
+    this.replaceMessages('errors', newErrors);
+  }
+
+  setWarning<P extends Path<T> | RootKey>(
+    key: P,
+    warning: Messages | null
+  ): void {
+    this.setMessages('warnings', key, warning);
+  }
+
+  setWarnings(newWarnings: Warnings<T>): void {
+    this.replaceMessages('warnings', newWarnings);
+  }
+
+  getItemKeys<P extends ArrayPath<T>>(key: P): string[] {
+    const items = this.getArray(key) ?? [];
+    const keys = this.itemKeys.get(key) ?? [];
+
+    if (keys.length !== items.length) {
+      const nextKeys = items.map((_item, i) => keys[i] ?? generateItemKey());
+      this.itemKeys.set(key, nextKeys);
+      return nextKeys;
     }
+
+    return keys;
   }
 
-  setErrors(newErrors: Partial<Record<keyof T, string>>): void {
-    (Object.keys(this.fields) as (keyof T)[]).forEach((key) => {
-      this.setError(key, newErrors[key] || null);
-    });
+  getItems<P extends ArrayPath<T>>(key: P): FieldArrayItem<ArrayItem<T, P>>[] {
+    const keys = this.getItemKeys(key);
+
+    return keys.map((itemKey, i) => ({
+      ...this.get(`${key}.${i}` as Path<T>),
+      key: itemKey
+    })) as FieldArrayItem<ArrayItem<T, P>>[];
+  }
+
+  append<P extends ArrayPath<T>>(key: P, item: ArrayItem<T, P>): void {
+    const items = this.getArray(key);
+    if (items) {
+      this.insert(key, items.length, item);
+    }
+  }
+
+  insert<P extends ArrayPath<T>>(
+    key: P,
+    index: number,
+    item: ArrayItem<T, P>
+  ): void {
+    const items = this.getArray(key);
+    if (items && index >= 0 && index <= items.length) {
+      const order = items.map((_item, i) => i);
+      order.splice(index, 0, -1);
+      this.rearrange(key, order, [item]);
+    }
   }
 
+  remove<P extends ArrayPath<T>>(key: P, index: number): void {
+    const items = this.getArray(key);
+    if (items && index in items) {
+      const order = items.map((_item, i) => i);
+      order.splice(index, 1);
+      this.rearrange(key, order);
+    }
+  }
+
+  move<P extends ArrayPath<T>>(key: P, from: number, to: number): void {
+    const items = this.getArray(key);
+    if (items && from in items && to in items && from !== to) {
+      const order = items.map((_item, i) => i);
+      order.splice(to, 0, ...order.splice(from, 1));
+      this.rearrange(key, order);
+    }
+  }
+
+  swap<P extends ArrayPath<T>>(key: P, indexA: number, indexB: number): void {
+    const items = this.getArray(key);
+    if (items && indexA in items && indexB in items && indexA !== indexB) {
+      const order = items.map((_item, i) => i);
+      order[indexA] = indexB;
+      order[indexB] = indexA;
+      this.rearrange(key, order);
+    }
+  }
+
+  replace<P extends ArrayPath<T>>(key: P, items: PathValue<T, P>): void {
+    if (this.getArray(key)) {
+      const newItems = items as unknown[];
+      this.rearrange(
+        key,
+        newItems.map(() => -1),
+        newItems
+      );
+    }
+  }
+
+  /**
+   * Replaces all values and makes `snapshot` the new baseline for dirty
+   * tracking.
+   */
   reset(snapshot: T): void {
-    this.fields = this.valuesToFields(snapshot);
-    Object.entries(this.fields).forEach(([name, field]) => {
-      this.notify(name, field);
+    this.initialValues = snapshot;
+    this.values = snapshot;
+    this.isSubmitted = false;
+    this.submitCount = 0;
+    this.submitError = null;
+    this.fieldValidationControllers.forEach((controller) => controller.abort());
+    this.fieldValidationControllers.clear();
+    this.updateValidating();
+    this.restartValidation();
+    this.fieldStates.clear();
+    this.itemKeys.clear();
+    this.removedFields.clear();
+    this.keptValues.clear();
+    this.inputs.clear();
+    this.blurredFields.clear();
+    this.computed.forEach(({ compute }, key) => {
+      this.initialValues = setIn(this.initialValues, key, compute(snapshot));
+      this.values = setIn(this.values, key, compute(this.values));
     });
+    this.notifyKeys(
+      Array.from(
+        new Set([...Object.keys(this.values), ...this.fieldSubscribers.keys()])
+      )
+    );
+  }
+
+  toSnapshot(): FormSnapshot<T> {
+    return {
+      version: SNAPSHOT_VERSION,
+      values: this.values,
+      initialValues: this.initialValues,
+      errors: this.getMessages('errors'),
+      warnings: this.getMessages('warnings'),
+      touched: this.getTouchedKeys(),
+      removed: Array.from(this.removedFields),
+      isSubmitted: this.isSubmitted,
+      submitCount: this.submitCount
+    };
   }
 
-  getSlice<K extends keyof T>(keys: readonly K[]): Pick<FieldSet<T>, K> {
+  /**
+   * Restores state saved with `toSnapshot()`. Snapshots of another version
+   * are ignored, which is reported by returning `false`.
+   */
+  fromSnapshot(snapshot: FormSnapshot<T>): boolean {
+    if (snapshot?.version !== SNAPSHOT_VERSION) return false;
+
+    const keysBefore = Array.from(this.fieldStates.keys());
+
+    this.fieldValidationControllers.forEach((controller) => controller.abort());
+    this.fieldValidationControllers.clear();
+    this.updateValidating();
+    this.restartValidation();
+    this.values = snapshot.values;
+    this.initialValues = snapshot.initialValues;
+    this.isSubmitted = snapshot.isSubmitted;
+    this.submitCount = snapshot.submitCount;
+    this.submitError = null;
+    this.fieldStates.clear();
+    this.itemKeys.clear();
+    this.removedFields = new Set(snapshot.removed);
+    this.keptValues.clear();
+    this.inputs.clear();
+    this.blurredFields.clear();
+    (['errors', 'warnings'] as const).forEach((kind) => {
+      Object.entries(snapshot[kind]).forEach(([key, messages]) => {
+        this.updateFieldState(key, { [kind]: toMessages(messages) });
+      });
+    });
+    snapshot.touched.forEach((key) => {
+      this.updateFieldState(key, { isTouched: true });
+    });
+
+    this.notifyKeys(
+      Array.from(
+        new Set([
+          ...Object.keys(this.values),
+          ...keysBefore,
+          ...this.fieldStates.keys(),
+          ...this.fieldSubscribers.keys()
+        ])
+      )
+    );
+    return true;
+  }
+  /**
+   * Stops pending validation and emits `dispose` for plugins to release
+   * their resources, then drops all handlers and subscribers.
+   */
+  dispose(): void {
+    this.isDisposed = true;
+    this.validationController?.abort();
+    this.validationController = null;
+    this.fieldValidationControllers.forEach((controller) => controller.abort());
+    this.fieldValidationControllers.clear();
+    this.emit('dispose');
+
+    this.eventHandlers.clear();
+    this.wildcardHandlers.clear();
+    this.middlewares.clear();
+    this.eventQueue.clear();
+    this.fieldSubscribers.clear();
+    this.formSubscribers.clear();
+  }
+
+  getSlice<P extends Path<T>>(keys: readonly P[]): PathFieldSet<T, P> {
     return keys.reduce((acc, key) => {
-      acc[key] = this.fields[key];
+      acc[key] = this.get(key);
       return acc;
-    }, {} as Pick<FieldSet<T>, K>);
+    }, {} as PathFieldSet<T, P>);
   }
 
-  subscribeField<K extends keyof T>(
-    key: K,
-    callback: FieldSubscriber<T[K]>
+  subscribeField<P extends Path<T>>(
+    key: P,
+    callback: FieldSubscriber<PathValue<T, P>>
   ): FieldUnsubscribeFn {
     if (!this.fieldSubscribers.has(key)) {
       this.fieldSubscribers.set(key, new Set());
     }
 
     const subscribers = this.fieldSubscribers.get(key)!;
-    subscribers.add(callback as FieldSubscriber<T[keyof T]>);
+    subscribers.add(callback as FieldSubscriber<unknown>);
 
     return () => {
-      subscribers.delete(callback as FieldSubscriber<T[keyof T]>);
+      subscribers.delete(callback as FieldSubscriber<unknown>);
     };
   }
 
+  /**
+   * Subscribes to state changes of all fields. Changes made inside a batch
+   * are reported once, when it ends.
+   */
+  subscribe(listener: FormSubscriber): FieldUnsubscribeFn {
+    this.formSubscribers.add(listener);
+
+    return () => {
+      this.formSubscribers.delete(listener);
+    };
+  }
+
+  /**
+   * Validates the form and calls `onValid` or `onInvalid` with the result,
+   * awaiting async validators and handlers. Calls made while a submission is
+   * in progress are ignored. Errors thrown by handlers are kept in
+   * `submitError` rather than rethrown.
+   */
+  async submit(
+    onValid?: SubmitHandler<T>,
+    onInvalid?: InvalidSubmitHandler<T>
+  ): Promise<void> {
+    if (this.isSubmitting) return;
+
+    this.isSubmitting = true;
+    this.submitCount++;
+    this.submitError = null;
+    this.emit('submitStart');
+
+    let values = this.getValues();
+    let errors: Errors<T> | null = null;
+    let warnings: Warnings<T> | null = null;
+
+    try {
+      ({ values, errors, warnings } = await this.validate());
+      // Nobody is left to handle the result
+      if (this.isDisposed) return;
+
+      this.emit('errors', errors ?? {});
+      this.emit('warnings', warnings ?? {});
+
+      if (errors) {
+        await onInvalid?.(errors, values);
+      } else {
+        await onValid?.(values);
+      }
+    } catch (error) {
+      this.submitError = error;
+    }
+
+    this.isSubmitting = false;
+    this.isSubmitted = true;
+    this.emit('submitted', values, errors);
+  }
+
+  /**
+   * Runs `update` as a transaction: subscribers are notified once per field
+   * when the outermost batch ends, and value-changing events emitted inside
+   * it (`change`, `changeMany`, array operations, `addField` and
+   * `removeField`) are reported as a single `changeMany`. If `update` throws,
+   * the changes it made are rolled back.
+   */
+  batch<R>(update: () => R): R {
+    const saved = this.saveState();
+
+    this.batchDepth++;
+    try {
+      return update();
+    } catch (error) {
+      this.restoreState(saved);
+      // Subscribers never saw the rolled back changes
+      if (this.batchDepth === 1) this.pendingNotifications.clear();
+      throw error;
+    } finally {
+      this.batchDepth--;
+      if (this.batchDepth === 0) this.endBatch(saved.values);
+    }
+  }
+
+  /**
+   * Registers an event handler. Handlers registered for `'*'` receive every
+   * event after its own handlers ran; they don't count as handlers of the
+   * event, so events nobody else handles are still queued.
+   */
+  on(event: '*', handler: WildcardHandler<T>): EventUnsubscribeFn;
   on<E extends keyof EventMap<T>>(
     event: E,
     handler: EventHandler<EventMap<T>[E]>
+  ): EventUnsubscribeFn;
+  on<E extends keyof EventMap<T>>(
+    event: E | '*',
+    handler: EventHandler<EventMap<T>[E]> | WildcardHandler<T>
   ): EventUnsubscribeFn {
+    if (event === '*') {
+      const wildcardHandler = handler as WildcardHandler<T>;
+      this.wildcardHandlers.add(wildcardHandler);
+
+      return () => {
+        this.wildcardHandlers.delete(wildcardHandler);
+      };
+    }
+
     if (!this.eventHandlers.has(event)) {
       this.eventHandlers.set(event, new Set());
     }
@@ -174,7 +1093,7 @@ export class Form<T extends Values> {
     handlers.add(handler as (...args: EventMap<T>[keyof EventMap<T>]) => void);
 
     // Process queued events when first handler is added
-    this.processQueuedEvents(event);
+    this.processQueuedEvents(event, handler as EventHandler<EventMap<T>[E]>);
 
     return () => {
       handlers.delete(
@@ -203,43 +1122,187 @@ export class Form<T extends Values> {
       .add(wrapper as (...args: EventMap<T>[keyof EventMap<T>]) => void);
 
     // Process queued events when first handler is added
-    this.processQueuedEvents(event);
+    this.processQueuedEvents(event, wrapper);
+  }
+
+  /**
+   * Events waiting to be replayed to handlers registered later, by event in
+   * the order they were emitted.
+   */
+  getPendingEvents(): PendingEvent<T>[] {
+    const pending: PendingEvent<T>[] = [];
+    this.eventQueue.forEach((queue, event) => {
+      queue.forEach((args) => {
+        pending.push({ event, args } as PendingEvent<T>);
+      });
+    });
+    return pending;
+  }
+
+  /**
+   * Drops pending events of `event`, or of all events.
+   */
+  clearPendingEvents(event?: keyof EventMap<T>): void {
+    if (event === undefined) {
+      this.eventQueue.clear();
+    } else {
+      this.eventQueue.delete(event);
+    }
+  }
+
+  /**
+   * Adds a middleware that can transform or cancel `event` before its
+   * handlers run, e.g. for input masking or permission checks. Middlewares
+   * run in the order they were added.
+   */
+  intercept<E extends keyof EventMap<T>>(
+    event: E,
+    middleware: EventMiddleware<T, E>
+  ): EventUnsubscribeFn {
+    if (!this.middlewares.has(event)) {
+      this.middlewares.set(event, new Set());
+    }
+
+    const middlewares = this.middlewares.get(event)!;
+    const entry = middleware as unknown as EventMiddleware<
+      T,
+      keyof EventMap<T>
+    >;
+    middlewares.add(entry);
+
+    return () => {
+      middlewares.delete(entry);
+    };
   }
 
   emit: EmitFn<T> = (event, ...args) => {
-    this.doEmit(event, ...args);
+    this.dispatch(event, args);
   };
 
   emitLater: EmitFn<T> = (event, ...args) => {
     setTimeout(() => {
-      this.doEmit(event, ...args);
+      this.dispatch(event, args);
     }, 0);
   };
 
+  private dispatch<E extends keyof EventMap<T>>(
+    event: E,
+    args: EventMap<T>[E]
+  ): void {
+    const middlewares = Array.from(this.middlewares.get(event) ?? []);
+
+    const run = (index: number, currentArgs: EventMap<T>[E]): void => {
+      if (index === middlewares.length) {
+        this.doEmit(event, ...currentArgs);
+        return;
+      }
+
+      middlewares[index](currentArgs, (nextArgs = currentArgs) =>
+        run(index + 1, nextArgs as EventMap<T>[E])
+      );
+    };
+
+    run(0, args);
+  }
+
   private doEmit<E extends keyof EventMap<T>>(
     event: E,
     ...args: EventMap<T>[E]
   ): void {
+    // Changes inside a batch are applied right away and reported when it
+    // ends, so handlers never see changes that are rolled back
+    if (this.batchDepth > 0 && this.applyInBatch(event, args)) {
+      return;
+    }
+
     const handlers = this.eventHandlers.get(event);
+    const policy = this.replayPolicyOf(event);
+
+    if (policy === 'last') {
+      this.eventQueue.set(event, [args]);
+    }
 
     if (!handlers || handlers.size === 0) {
       // Queue event if no handlers exist
-      if (!this.eventQueue.has(event)) {
-        this.eventQueue.set(event, []);
+      if (policy === 'all' || typeof policy === 'object') {
+        if (!this.eventQueue.has(event)) {
+          this.eventQueue.set(event, []);
+        }
+        const queue = this.eventQueue.get(event)!;
+        queue.push(args);
+        if (typeof policy === 'object' && queue.length > policy.limit) {
+          queue.splice(0, queue.length - policy.limit);
+        }
       }
-      this.eventQueue.get(event)!.push(args);
     } else {
       // Emit to handlers immediately
       handlers.forEach((handler) => {
         handler(...args);
       });
     }
+
+    this.wildcardHandlers.forEach((handler) => {
+      (handler as (...args: unknown[]) => void)(event, ...args);
+    });
+  }
+
+  private applyInBatch<E extends keyof EventMap<T>>(
+    event: E,
+    args: EventMap<T>[E]
+  ): boolean {
+    switch (event) {
+      case 'change':
+        this.setValue(...(args as EventMap<T>['change']));
+        return true;
+      case 'changeMany':
+        this.setValues(...(args as EventMap<T>['changeMany']));
+        return true;
+      case 'append':
+        this.append(...(args as EventMap<T>['append']));
+        return true;
+      case 'insert':
+        this.insert(...(args as EventMap<T>['insert']));
+        return true;
+      case 'remove':
+        this.remove(...(args as EventMap<T>['remove']));
+        return true;
+      case 'move':
+        this.move(...(args as EventMap<T>['move']));
+        return true;
+      case 'swap':
+        this.swap(...(args as EventMap<T>['swap']));
+        return true;
+      case 'replace':
+        this.replace(...(args as EventMap<T>['replace']));
+        return true;
+      case 'addField':
+        this.addField(...(args as EventMap<T>['addField']));
+        return true;
+      case 'removeField':
+        this.removeField(...(args as EventMap<T>['removeField']));
+        return true;
+      default:
+        return false;
+    }
   }
 
-  private processQueuedEvents<E extends keyof EventMap<T>>(event: E): void {
+  private replayPolicyOf(event: keyof EventMap<T>): ReplayPolicy {
+    return this.replay[event as keyof EventMap<Values>] ?? 'all';
+  }
+
+  private processQueuedEvents<E extends keyof EventMap<T>>(
+    event: E,
+    handler: EventHandler<EventMap<T>[E]>
+  ): void {
     const queue = this.eventQueue.get(event);
     if (!queue || queue.length === 0) return;
 
+    // Sticky events are kept and replayed to each new handler
+    if (this.replayPolicyOf(event) === 'last') {
+      handler(...(queue[0] as EventMap<T>[E]));
+      return;
+    }
+
     const handlers = this.eventHandlers.get(event);
 
     // Process all queued events in FIFO order while handlers exist
@@ -256,81 +1319,707 @@ export class Form<T extends Values> {
     }
   }
 
-  private notify<K extends keyof T>(key: K, field: Field<T[K]>): void {
+  /**
+   * Notifies subscribers of `key` and of all its ancestors. When a value is
+   * replaced, subscribers of nested paths below `key` are notified as well.
+   */
+  private notify(key: string, withDescendants: boolean = false): void {
+    const keys = [key, ...ancestorPaths(key)];
+
+    if (withDescendants) {
+      this.fieldSubscribers.forEach((_subscribers, path) => {
+        if (isDescendantPath(path, key)) keys.push(path);
+      });
+    }
+
+    this.notifyKeys(keys);
+  }
+
+  private notifyKeys(keys: string[]): void {
+    if (this.batchDepth > 0) {
+      keys.forEach((key) => this.pendingNotifications.add(key));
+      return;
+    }
+
+    keys.forEach((key) => this.notifySubscribers(key));
+    if (keys.length > 0) {
+      this.formSubscribers.forEach((listener) => listener(keys));
+    }
+  }
+
+  private notifySubscribers(key: string): void {
     const subscribers = this.fieldSubscribers.get(key);
-    if (subscribers) {
+    if (subscribers && subscribers.size > 0) {
+      const field = this.get(key as Path<T>);
       subscribers.forEach((callback) => {
         callback(field);
       });
     }
   }
 
-  private valuesToFields(values: T): FieldSet<T> {
-    return Object.keys(values).reduce((acc, key) => {
-      acc[key as keyof T] = {
-        value: values[key as keyof T],
-        error: null,
-        isTouched: false
+  private updateFieldState(key: string, patch: Partial<FieldState>): void {
+    const state = this.fieldStates.get(key) ?? {
+      errors: [],
+      warnings: [],
+      isTouched: false
+    };
+    this.fieldStates.set(key, { ...state, ...patch });
+  }
+
+  private setMessages(
+    kind: MessageKind,
+    key: string,
+    messages: Messages | null | undefined
+  ): void {
+    const next = toMessages(messages);
+
+    if (!sameMessages(this.fieldStates.get(key)?.[kind] ?? [], next)) {
+      this.updateFieldState(key, { [kind]: next });
+      this.notify(key);
+    }
+  }
+
+  // Sets messages of the given paths and clears them everywhere else
+  private replaceMessages(kind: MessageKind, messages: Errors<T>): void {
+    const keys = new Set(Object.keys(messages));
+    this.fieldStates.forEach((state, key) => {
+      if (state[kind].length > 0) keys.add(key);
+    });
+
+    keys.forEach((key) => {
+      this.setMessages(kind, key, messages[key as Path<T>]);
+    });
+  }
+
+  private getMessages(kind: MessageKind): Errors<T> {
+    const messages: Errors<T> = {};
+    this.fieldStates.forEach((state, key) => {
+      const list = state[kind];
+      if (list.length > 0) {
+        messages[key as Path<T>] = list.length === 1 ? list[0] : [...list];
+      }
+    });
+    return messages;
+  }
+
+  private getArray(key: string): unknown[] | null {
+    const items = getIn(this.values, key);
+    return Array.isArray(items) ? items : null;
+  }
+
+  /**
+   * Rebuilds the array at `key` so that item `i` of the result is the item
+   * previously found at `order[i]`, or the next of `newItems` when
+   * `order[i]` is -1. Item keys and nested field states travel with their
+   * items; states of removed items are dropped.
+   */
+  private rearrange(
+    key: string,
+    order: number[],
+    newItems: unknown[] = []
+  ): void {
+    const items = this.getArray(key)!;
+    const keys = this.getItemKeys(key as ArrayPath<T>);
+    const pending = newItems.slice();
+    const targets = new Map<number, number>();
+    order.forEach((from, to) => {
+      if (from >= 0) targets.set(from, to);
+    });
+
+    this.values = setIn(
+      this.values,
+      key,
+      order.map((from) => (from >= 0 ? items[from] : pending.shift()))
+    );
+    this.itemKeys.set(
+      key,
+      order.map((from) => (from >= 0 ? keys[from] : generateItemKey()))
+    );
+    this.remapItemPaths(this.fieldStates, key, targets);
+    this.remapItemPaths(this.itemKeys, key, targets);
+    const blurred = new Map(
+      [...this.blurredFields].map((path) => [path, true])
+    );
+    this.remapItemPaths(blurred, key, targets);
+    this.blurredFields = new Set(blurred.keys());
+    this.handleChange(key);
+  }
+
+  private remapItemPaths<V>(
+    entries: Map<string, V>,
+    key: string,
+    targets: Map<number, number>
+  ): void {
+    const remapped = new Map<string, V>();
+
+    entries.forEach((entry, path) => {
+      if (isDescendantPath(path, key)) {
+        const [index, ...rest] = splitPath(path.slice(key.length + 1));
+        const target = targets.get(Number(index));
+        if (target !== undefined) {
+          remapped.set([key, target, ...rest].join('.'), entry);
+        }
+        entries.delete(path);
+      }
+    });
+
+    remapped.forEach((entry, path) => entries.set(path, entry));
+  }
+
+  private dropItemKeys(key: string): void {
+    this.itemKeys.forEach((_keys, path) => {
+      if (path === key || isDescendantPath(path, key)) {
+        this.itemKeys.delete(path);
+      }
+    });
+  }
+
+  private diffPaths(
+    current: unknown,
+    initial: unknown,
+    prefix: string
+  ): string[] {
+    if (!isPlainObject(current) || !isPlainObject(initial)) {
+      return this.isEqual(current, initial) ? [] : [prefix];
+    }
+
+    const keys = new Set([...Object.keys(current), ...Object.keys(initial)]);
+    const paths: string[] = [];
+    keys.forEach((key) => {
+      paths.push(
+        ...this.diffPaths(
+          current[key],
+          initial[key],
+          prefix ? `${prefix}.${key}` : key
+        )
+      );
+    });
+    return paths;
+  }
+
+  /**
+   * Applies the validation mode to a changed value: the field is either
+   * validated right away or, before the first submit, has its error cleared.
+   * Once the form has been submitted, errors are kept until revalidation.
+   */
+  private handleChange(key: string): void {
+    const scope = this.validationScope('change', key);
+
+    this.abortFieldValidation(key);
+    this.restartValidation();
+    this.dropInputs(key);
+
+    this.updateFieldState(
+      key,
+      scope === 'all' || this.isSubmitted
+        ? { isTouched: true }
+        : { errors: [], warnings: [], isTouched: true }
+    );
+    this.notify(key, true);
+    this.recomputeDependents(key);
+
+    if (scope) {
+      this.validateField(key, scope === 'all');
+    }
+
+    this.revalidateDependents(key);
+  }
+
+  // The value has been replaced, so pending input of it is stale
+  private dropInputs(key: string): void {
+    this.inputs.forEach((_pending, path) => {
+      if (path === key || isDescendantPath(path, key)) {
+        this.inputs.delete(path);
+      }
+    });
+  }
+
+  private revalidateDependents(key: string): void {
+    const isRelated = (dep: string) =>
+      dep === key || isDescendantPath(dep, key) || isDescendantPath(key, dep);
+
+    this.dependencies.forEach((deps, path) => {
+      if (path === key || !deps.some(isRelated)) return;
+
+      const state = this.fieldStates.get(path);
+      const isChecked = Boolean(state?.isTouched || state?.errors.length);
+      const scope = this.validationScope('change', path);
+
+      if (isChecked && scope) {
+        this.validateField(path, scope === 'all');
+      } else {
+        this.setMessages('errors', path, null);
+        this.setMessages('warnings', path, null);
+      }
+    });
+  }
+
+  /**
+   * What a change or blur of `key` validates: everything the validation mode
+   * asks for, or, while no `mode` is set and the form has not been
+   * submitted, only the field validators of `key` and of paths nested in it.
+   */
+  private validationScope(
+    trigger: 'change' | 'blur',
+    key: string
+  ): 'all' | 'fields' | null {
+    if (this.shouldValidateOn(trigger, key)) return 'all';
+
+    const hasFieldValidators = Array.from(this.fieldValidators.keys()).some(
+      (path) => path === key || isDescendantPath(path, key)
+    );
+    return this.hasDefaultMode && !this.isSubmitted && hasFieldValidators
+      ? 'fields'
+      : null;
+  }
+
+  private shouldValidateOn(trigger: 'change' | 'blur', key: string): boolean {
+    const mode = this.isSubmitted ? this.reValidateMode : this.mode;
+
+    switch (mode) {
+      case 'all':
+        return true;
+      case 'onChange':
+        return trigger === 'change';
+      case 'onBlur':
+        return trigger === 'blur';
+      case 'onTouched':
+        return trigger === 'blur' || this.blurredFields.has(key);
+      default:
+        return false;
+    }
+  }
+
+  /**
+   * Runs form-level validators (unless `withFormValidators` is `false`) along
+   * with field validators of `key` and of paths nested in it, and applies the
+   * resulting errors to those paths only.
+   * With debounced validators involved, the others run right away and the
+   * full set runs once the debounce delay has passed without new changes.
+   */
+  private validateField(key: string, withFormValidators: boolean = true): void {
+    const value = getIn(this.values, key);
+    const inScope = (path: string) =>
+      path === key || isDescendantPath(path, key);
+    const fieldKeys = Array.from(this.fieldValidators.keys()).filter(inScope);
+    const validators = withFormValidators ? this.validators : [];
+    const debounce = Math.max(
+      0,
+      ...validators.map((validator) => this.debounceOf(validator)),
+      ...fieldKeys.flatMap((path) =>
+        this.fieldValidators.get(path)!.map((v) => this.debounceOf(v))
+      )
+    );
+    const controller = new AbortController();
+    let isSettled = false;
+
+    this.fieldValidationControllers.get(key)?.abort();
+    this.fieldValidationControllers.set(key, controller);
+
+    const apply = (messages: ValidationMessages<T>, isFinal: boolean) => {
+      // Skip results of a superseded run or ones the final run has replaced
+      if (controller.signal.aborted || isSettled) return;
+
+      if (isFinal) {
+        isSettled = true;
+        this.fieldValidationControllers.delete(key);
+        this.updateValidating();
+      }
+
+      // Skip results for a value that has changed in the meantime
+      if (getIn(this.values, key) !== value) return;
+
+      (['errors', 'warnings'] as const).forEach((kind) => {
+        const paths = new Set([
+          key,
+          ...Object.keys(messages[kind]).filter(inScope)
+        ]);
+        this.fieldStates.forEach((state, path) => {
+          if (state[kind].length > 0 && inScope(path)) paths.add(path);
+        });
+        paths.forEach((path) => {
+          this.setMessages(kind, path, messages[kind][path as Path<T>]);
+        });
+      });
+    };
+
+    const run = (isFinal: boolean) => {
+      const result = this.collectMessages(
+        this.getSubmitValues(),
+        fieldKeys,
+        controller.signal,
+        !isFinal,
+        withFormValidators
+      );
+
+      if (result instanceof Promise) {
+        // A failed check, e.g. a network error, clears the messages of the
+        // field instead of rejecting a promise nobody awaits
+        result.then(
+          (messages) => apply(messages, isFinal),
+          () => apply({ errors: {}, warnings: {} }, isFinal)
+        );
+      } else {
+        apply(result, isFinal);
+      }
+    };
+
+    if (debounce > 0) {
+      run(false);
+      const timer = setTimeout(() => run(true), debounce);
+      controller.signal.addEventListener('abort', () => clearTimeout(timer));
+    } else {
+      run(true);
+    }
+
+    this.updateValidating();
+  }
+
+  private abortFieldValidation(key: string): void {
+    this.fieldValidationControllers.forEach((controller, path) => {
+      if (
+        path === key ||
+        isDescendantPath(path, key) ||
+        isDescendantPath(key, path)
+      ) {
+        controller.abort();
+        this.fieldValidationControllers.delete(path);
+      }
+    });
+    this.updateValidating();
+  }
+
+  private setDebounce(validator: object, options: ValidatorOptions): void {
+    if (options.debounce) {
+      this.validatorDebounces.set(validator, options.debounce);
+    }
+  }
+
+  private saveState(): SavedState<T> {
+    return {
+      values: this.values,
+      initialValues: this.initialValues,
+      fieldStates: new Map(this.fieldStates),
+      itemKeys: new Map(this.itemKeys),
+      removedFields: new Set(this.removedFields),
+      keptValues: new Map(this.keptValues),
+      inputs: new Map(this.inputs),
+      blurredFields: new Set(this.blurredFields)
+    };
+  }
+
+  private restoreState(saved: SavedState<T>): void {
+    this.values = saved.values;
+    this.initialValues = saved.initialValues;
+    this.fieldStates = saved.fieldStates;
+    this.itemKeys = saved.itemKeys;
+    this.removedFields = saved.removedFields;
+    this.keptValues = saved.keptValues;
+    this.inputs = saved.inputs;
+    this.blurredFields = saved.blurredFields;
+  }
+
+  private endBatch(valuesBefore: T): void {
+    const pending = Array.from(this.pendingNotifications);
+    this.pendingNotifications.clear();
+    this.notifyKeys(pending);
+
+    const changed = Object.keys(this.values).filter(
+      (key) => this.values[key] !== valuesBefore[key]
+    );
+    if (changed.length > 0) {
+      this.emit(
+        'changeMany',
+        Object.fromEntries(
+          changed.map((key) => [key, this.values[key]])
+        ) as Partial<T>
+      );
+    }
+  }
+
+  private isComputed(key: string): boolean {
+    for (const path of this.computed.keys()) {
+      if (key === path || isDescendantPath(key, path)) return true;
+    }
+    return false;
+  }
+
+  /**
+   * Recomputes fields depending on `key`, and the ones nested in it, along
+   * with fields depending on those in turn. `visited` guards against cycles.
+   */
+  private recomputeDependents(
+    key: string,
+    visited: Set<string> = new Set()
+  ): void {
+    const isRelated = (path: string) =>
+      path === key ||
+      isDescendantPath(path, key) ||
+      isDescendantPath(key, path);
+
+    this.computed.forEach(({ deps }, path) => {
+      if (visited.has(path)) return;
+
+      if (isRelated(path) || deps.some(isRelated)) {
+        visited.add(path);
+        this.updateComputed(path, visited);
+      }
+    });
+  }
+
+  private updateComputed(
+    key: string,
+    visited: Set<string> = new Set([key])
+  ): void {
+    const value = this.computed.get(key)!.compute(this.values);
+    if (this.isEqual(value, getIn(this.values, key))) return;
+
+    this.values = setIn(this.values, key, value);
+    this.notify(key, true);
+    this.recomputeDependents(key, visited);
+  }
+
+  // Values as passed to validators and submit handlers
+  private getSubmitValues(): T {
+    let values = this.values;
+    this.computed.forEach(({ includeInSubmit }, key) => {
+      if (!includeInSubmit) values = unsetIn(values, key);
+    });
+    return values;
+  }
+
+  private isRemoved(path: string): boolean {
+    for (const removed of this.removedFields) {
+      if (path === removed || isDescendantPath(path, removed)) return true;
+    }
+    return false;
+  }
+
+  // Form-level validators may still report removed fields
+  private dropRemoved(messages: ValidationMessages<T>): ValidationMessages<T> {
+    const keep = (map: Errors<T>) =>
+      Object.fromEntries(
+        Object.entries(map).filter(([path]) => !this.isRemoved(path))
+      ) as Errors<T>;
+
+    return { errors: keep(messages.errors), warnings: keep(messages.warnings) };
+  }
+
+  private debounceOf(validator: object): number {
+    return this.validatorDebounces.get(validator) ?? 0;
+  }
+
+  /**
+   * Emits `validatingChange` when `isValidating` flips, covering both full
+   * validation runs and pending (possibly debounced) field validation.
+   */
+  private updateValidating(): void {
+    const isValidating = this.isValidating;
+    if (isValidating !== this.wasValidating) {
+      this.wasValidating = isValidating;
+      this.emit('validatingChange', isValidating);
+    }
+  }
+
+  /**
+   * Runs all validators of a field. The first one reporting errors wins,
+   * while warnings of all of them are kept.
+   */
+  private runFieldValidators(
+    key: string,
+    values: T,
+    signal: AbortSignal,
+    skipDebounced: boolean
+  ): ValidationOutput<T> | Promise<ValidationOutput<T>> {
+    const value = getIn(values, key);
+    const results = this.fieldValidators
+      .get(key)!
+      .filter((validator) => !skipDebounced || !this.debounceOf(validator))
+      .map((validator) => validator(value, values, signal));
+
+    const toOutput = (fieldResults: FieldValidationResult[]) => {
+      const outputs = fieldResults.map((result) =>
+        isPlainObject(result) ? result : { errors: result }
+      );
+      const error = outputs.find(
+        (output) => toMessages(output.errors).length > 0
+      )?.errors;
+      const warnings = outputs.flatMap((output) => toMessages(output.warnings));
+
+      return {
+        errors: error ? ({ [key]: error } as Errors<T>) : null,
+        warnings:
+          warnings.length > 0
+            ? ({
+                [key]: warnings.length === 1 ? warnings[0] : warnings
+              } as Warnings<T>)
+            : null
       };
-      return acc;
-    }, {} as FieldSet<T>);
+    };
+
+    if (results.some((result) => result instanceof Promise)) {
+      return Promise.all(results).then(toOutput);
+    }
+
+    return toOutput(results as FieldValidationResult[]);
+  }
+
+  private hasTouchedDescendant(key: string): boolean {
+    for (const [path, state] of this.fieldStates) {
+      if (state.isTouched && isDescendantPath(path, key)) return true;
+    }
+    return false;
+  }
+
+  /**
+   * Starts a validation run of all values. Each run aborts the previous one,
+   * and a superseded run resolves with the result of the newest run, so only
+   * the newest run emits `validated`.
+   */
+  private validate(): Promise<ValidationResult<T>> {
+    this.validationController?.abort();
+    this.validationController = new AbortController();
+    this.updateValidating();
+    this.latestValidation = this.runValidation(this.validationController);
+    return this.latestValidation;
   }
 
-  private async runValidation(): Promise<void> {
-    this.isValidating = true;
+  // Values changed while a run was in flight: validate them instead
+  private restartValidation(): void {
+    if (this.validationController) {
+      this.validateInBackground();
+    }
+  }
+
+  // Only `submit()` awaits a run, and reports its failure as `submitError`
+  private validateInBackground(): void {
+    this.validate().catch(() => {});
+  }
+
+  private async runValidation(
+    controller: AbortController
+  ): Promise<ValidationResult<T>> {
     this.emit('validationStart');
 
-    const values = this.getValues();
+    const values = this.getSubmitValues();
+    let messages: ValidationMessages<T> = { errors: {}, warnings: {} };
+    let failure: unknown = null;
+
+    try {
+      messages = this.dropRemoved(
+        await this.collectMessages(
+          values,
+          Array.from(this.fieldValidators.keys()).filter(
+            (key) => !this.isRemoved(key)
+          ),
+          controller.signal
+        )
+      );
+    } catch (error) {
+      failure = error;
+    }
+
+    // A run in flight when the form was disposed has no newer run to defer to
+    if (this.isDisposed) {
+      return { values, errors: null, warnings: null };
+    }
+    if (controller !== this.validationController) {
+      return this.latestValidation!;
+    }
+
+    this.validationController = null;
+    this.updateValidating();
+
+    // Waiters for `validated` are not left hanging when a validator fails
+    if (failure) {
+      this.emit('validated', values, null, null);
+      throw failure;
+    }
+
+    const errors =
+      Object.keys(messages.errors).length > 0 ? messages.errors : null;
+    const warnings =
+      Object.keys(messages.warnings).length > 0 ? messages.warnings : null;
+    this.emit('validated', values, errors, warnings);
+
+    return { values, errors, warnings };
+  }
+
+  /**
+   * Runs form-level validators and field validators of `fieldKeys`, merging
+   * their errors and warnings. Resolves synchronously when none of them is
+   * async.
+   */
+  private collectMessages(
+    values: T,
+    fieldKeys: string[],
+    signal: AbortSignal,
+    skipDebounced: boolean = false,
+    withFormValidators: boolean = true
+  ): ValidationMessages<T> | Promise<ValidationMessages<T>> {
+    const formValidators = withFormValidators ? this.validators : [];
+    const validators = skipDebounced
+      ? formValidators.filter((v) => !this.debounceOf(v))
+      : formValidators;
 
     // Partition validators by arity: pure validators vs error-dependent validators
-    const pureValidators = this.validators.filter((v) => v.length < 2);
-    const errorDependentValidators = this.validators.filter(
-      (v) => v.length >= 2
-    );
+    const pureValidators = validators.filter((v) => v.length < 2);
+    const errorDependentValidators = validators.filter((v) => v.length >= 2);
 
-    // Run pure validators first
-    const pureResults = pureValidators.map((validator) => validator(values));
-    const errors: Errors<T> = {};
-    const purePromises: Array<Promise<Errors<T> | null>> = [];
+    // Run pure validators first, field validators included
+    const pureResults = [
+      ...pureValidators.map((validator) => validator(values)),
+      ...fieldKeys.map((key) =>
+        this.runFieldValidators(key, values, signal, skipDebounced)
+      )
+    ];
+    const messages: ValidationMessages<T> = { errors: {}, warnings: {} };
+    const purePromises: Array<Promise<ValidatorResult<T>>> = [];
 
     for (const result of pureResults) {
       if (result instanceof Promise) {
         purePromises.push(result);
-      } else if (result) {
-        Object.assign(errors, result);
+      } else {
+        mergeResult(messages, result);
       }
     }
 
     // Call error-dependent validators with current errors
     const dependentResults = errorDependentValidators.map((validator) =>
-      validator(values, errors)
+      validator(values, messages.errors, signal)
     );
-    const dependentPromises: Array<Promise<Errors<T> | null>> = [];
+    const dependentPromises: Array<Promise<ValidatorResult<T>>> = [];
 
     for (const result of dependentResults) {
       if (result instanceof Promise) {
         dependentPromises.push(result);
-      } else if (result) {
-        Object.assign(errors, result);
+      } else {
+        mergeResult(messages, result);
       }
     }
 
     // Wait for all async validators (both pure and error-dependent)
     const allPromises = [...purePromises, ...dependentPromises];
-    if (allPromises.length > 0) {
-      const asyncResults = await Promise.all(allPromises);
+    if (allPromises.length === 0) {
+      return this.addParseErrors(messages);
+    }
+
+    return Promise.all(allPromises).then((asyncResults) => {
       for (const result of asyncResults) {
-        if (result) {
-          Object.assign(errors, result);
-        }
+        mergeResult(messages, result);
       }
-    }
+      return this.addParseErrors(messages);
+    });
+  }
 
-    this.isValidating = false;
-    this.emit(
-      'validated',
-      values,
-      Object.keys(errors).length > 0 ? errors : null
-    );
+  // Validators only see the last value that parsed, so input that didn't
+  // keeps its parse error
+  private addParseErrors(
+    messages: ValidationMessages<T>
+  ): ValidationMessages<T> {
+    this.inputs.forEach(({ error }, key) => {
+      if (error) messages.errors[key as Path<T>] = error;
+    });
+    return messages;
   }
 }
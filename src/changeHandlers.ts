@@ -9,6 +9,10 @@ export default function changeHandlers<T extends Values>(form: Form<T>) {
     form.setValues(newValues);
   });
 
+  form.on('input', (name, input) => {
+    form.setInput(name, input);
+  });
+
   form.on('touch', (name) => {
     form.touch(name);
   });
@@ -19,6 +23,38 @@ export default function changeHandlers<T extends Values>(form: Form<T>) {
     });
   });
 
+  form.on('append', (name, item) => {
+    form.append(name, item);
+  });
+
+  form.on('insert', (name, index, item) => {
+    form.insert(name, index, item);
+  });
+
+  form.on('remove', (name, index) => {
+    form.remove(name, index);
+  });
+
+  form.on('move', (name, from, to) => {
+    form.move(name, from, to);
+  });
+
+  form.on('swap', (name, indexA, indexB) => {
+    form.swap(name, indexA, indexB);
+  });
+
+  form.on('replace', (name, items) => {
+    form.replace(name, items);
+  });
+
+  form.on('addField', (name, initial) => {
+    form.addField(name, initial);
+  });
+
+  form.on('removeField', (name, options?) => {
+    form.removeField(name, options);
+  });
+
   form.on('reset', (values?) => {
     form.reset(values || form.initialValues);
   });
@@ -4,4 +4,8 @@ export default function errorHandlers<T extends Values>(form: Form<T>) {
   form.on('errors', (newErrors) => {
     form.setErrors(newErrors);
   });
+
+  form.on('warnings', (newWarnings) => {
+    form.setWarnings(newWarnings);
+  });
 }
@@ -1,90 +1,282 @@
-import { useEffect, useState, useCallback, useMemo } from 'react';
-import { Form } from './Form';
+import { useCallback, useMemo, useRef, useSyncExternalStore } from 'react';
+import { Form, ROOT_KEY } from './Form';
+import { ancestorPaths } from './paths';
 import logFormEvents from './logFormEvents';
 import changeHandlers from './changeHandlers';
 import errorHandlers from './errorHandlers';
 
-import type { Values, FieldSet, EmitFn, FieldUnsubscribeFn } from './Form';
+import type {
+  Values,
+  FormOptions,
+  Field,
+  FieldSet,
+  PathFieldSet,
+  Path,
+  PathValue,
+  ArrayPath,
+  ArrayItem,
+  FieldArrayItem,
+  SubmitHandler,
+  InvalidSubmitHandler,
+  EmitFn,
+  FormSnapshot,
+  FieldTransform
+} from './Form';
+
+export type FieldwiseOptions<T extends Values> = FormOptions & {
+  /**
+   * State to start from instead of `initialValues` alone, e.g. rendered on
+   * the server with `form.toSnapshot()`.
+   */
+  snapshot?: FormSnapshot<T>;
+  /**
+   * Prefix of the element ids from `i()`, `labelProps()` and
+   * `errorProps()`, shared by all hooks of the form. Defaults to an id
+   * numbered in the order forms are created, so pass it for forms created
+   * during server rendering.
+   */
+  id?: string;
+};
 
 type EmitFnEnhanced<T extends Values> = EmitFn<T> & {
   later: EmitFn<T>;
 };
 
-type FormCommons<T extends Values> = {
+/**
+ * Input types of fields with a transform registered through
+ * `FormBuilder.transform()`, by path.
+ */
+export type InputTypes = Record<string, unknown>;
+
+type InputOf<
+  T extends Values,
+  TInputs extends InputTypes,
+  P extends Path<T>
+> = P extends keyof TInputs ? TInputs[P] : PathValue<T, P>;
+
+type FormCommons<T extends Values, TInputs extends InputTypes = {}> = {
   emit: EmitFnEnhanced<T>;
   once: typeof Form.prototype.once;
   isTouched: boolean;
+  isDirty: boolean;
   isValidating: boolean;
-  i: <K extends keyof T>(key: K) => InputProps<K, T[K]>;
+  rootError: string | null;
+  rootErrors: string[];
+  isSubmitting: boolean;
+  isSubmitted: boolean;
+  submitCount: number;
+  submitError: unknown;
+  canUndo: boolean;
+  canRedo: boolean;
+  handleSubmit: (
+    onValid: SubmitHandler<T>,
+    onInvalid?: InvalidSubmitHandler<T>
+  ) => (event?: { preventDefault?: () => void }) => Promise<void>;
+  /**
+   * Props for the input of `key`. Fields with a transform registered through
+   * `FormBuilder.transform()` take its input type; for transforms registered
+   * by plugins, pass it as `I`, e.g. `i<'price', string>('price')`.
+   */
+  i: <P extends Path<T>, I = InputOf<T, TInputs, P>>(
+    key: P
+  ) => InputProps<P, I>;
+  /** Props for the label of the input of `key`. */
+  labelProps: <P extends Path<T>>(key: P) => LabelProps;
+  /** Props for the element showing the error of `key`. */
+  errorProps: <P extends Path<T>>(key: P) => ErrorProps;
 };
 
+type SubmitState = Pick<
+  Form<Values>,
+  'isSubmitting' | 'isSubmitted' | 'submitCount' | 'submitError'
+>;
+
+type HistoryState = {
+  canUndo: boolean;
+  canRedo: boolean;
+};
+
+type SliceSnapshot<T extends Values, P extends Path<T>> = {
+  fields: PathFieldSet<T, P>;
+  isTouched: boolean;
+  isDirty: boolean;
+  isValidating: boolean;
+  rootError: string | null;
+  rootErrors: string[];
+} & SubmitState &
+  HistoryState;
+
+type SliceCache<T extends Values, P extends Path<T>> = {
+  keys: readonly P[];
+  versions: number[];
+  meta: unknown[];
+  snapshot: SliceSnapshot<T, P>;
+};
+
+type ItemsCache<T extends Values, P extends ArrayPath<T>> = {
+  key: P;
+  version: number;
+  items: FieldArrayItem<ArrayItem<T, P>>[];
+};
+
+const sameItems = (a: readonly unknown[], b: readonly unknown[]): boolean =>
+  a.length === b.length && a.every((item, i) => item === b[i]);
+
 type InputProps<K, T> = {
+  id: string;
   name: K;
   value: T;
   onChange: (value: T) => void;
+  onBlur: () => void;
   error: string | null;
+  'aria-invalid': boolean;
+  'aria-describedby': string | undefined;
+  'aria-required': boolean;
+};
+type LabelProps = {
+  id: string;
+  htmlFor: string;
+};
+type ErrorProps = {
+  id: string;
+  role: 'alert';
 };
-type FormHooks<T extends Values> = {
-  useSlice<K extends keyof T>(
-    keys: readonly K[]
-  ): FormCommons<T> & { fields: FieldSet<Pick<T, K>> };
-  useForm(): FormCommons<T> & { fields: FieldSet<T> };
+type FieldArrayHelpers<T extends Values, P extends ArrayPath<T>> = {
+  items: FieldArrayItem<ArrayItem<T, P>>[];
+  append: (item: ArrayItem<T, P>) => void;
+  insert: (index: number, item: ArrayItem<T, P>) => void;
+  remove: (index: number) => void;
+  move: (from: number, to: number) => void;
+  swap: (indexA: number, indexB: number) => void;
+  replace: (items: PathValue<T, P>) => void;
+};
+export type FormHooks<T extends Values, TInputs extends InputTypes = {}> = {
+  useSlice<P extends Path<T>>(
+    keys: readonly P[]
+  ): FormCommons<T, TInputs> & { fields: PathFieldSet<T, P> };
+  useForm(): FormCommons<T, TInputs> & { fields: FieldSet<T> };
+  useFieldArray<P extends ArrayPath<T>>(key: P): FieldArrayHelpers<T, P>;
 };
 
-type PluginFunction<T extends Values, TArgs extends unknown[] = []> = (
+export type PluginFunction<T extends Values, TArgs extends unknown[] = []> = (
   form: Form<T>,
   ...args: TArgs
 ) => void;
 
-export class FormBuilder<T extends Values> {
+// Numbers the default id prefixes of forms
+let formCount = 0;
+
+export class FormBuilder<T extends Values, TInputs extends InputTypes = {}> {
   private form: Form<T>;
+  // Reported by the history plugin, if used
+  private historyState: HistoryState = { canUndo: false, canRedo: false };
+  // Bumped whenever a path is notified, to tell which cached hook snapshots
+  // are stale
+  private keyVersions: Map<string, number> = new Map();
+  private storeListeners: Set<() => void> = new Set();
+  private isFlushScheduled: boolean = false;
+  private idPrefix: string;
 
-  constructor(initialValues: T) {
-    this.form = new Form<T>(initialValues);
+  constructor(initialValues: T, options?: FieldwiseOptions<T>) {
+    this.form = new Form<T>(initialValues, options);
+    this.idPrefix = options?.id ?? `fieldwise-${++formCount}`;
+    if (options?.snapshot) {
+      this.form.fromSnapshot(options.snapshot);
+    }
     if (Form.debugMode) {
       logFormEvents(this.form);
     }
     changeHandlers(this.form);
     errorHandlers(this.form);
+    this.form.on('historyChange', (canUndo, canRedo) => {
+      this.historyState = { canUndo, canRedo };
+    });
+    this.form.subscribe((keys) => {
+      keys.forEach((key) => {
+        this.keyVersions.set(key, (this.keyVersions.get(key) ?? 0) + 1);
+      });
+      this.scheduleFlush();
+    });
+    // Validation, submit and history state change through events
+    this.form.on('*', () => this.scheduleFlush());
+  }
+
+  private subscribeStore = (listener: () => void): (() => void) => {
+    this.storeListeners.add(listener);
+    return () => {
+      this.storeListeners.delete(listener);
+    };
+  };
+
+  // Hooks are notified once per microtask, however many fields changed
+  private scheduleFlush(): void {
+    if (this.isFlushScheduled) return;
+
+    this.isFlushScheduled = true;
+    queueMicrotask(() => {
+      this.isFlushScheduled = false;
+      this.storeListeners.forEach((listener) => listener());
+    });
+  }
+
+  // Replacing an ancestor changes the field as well
+  private versionOf(key: string): number {
+    return [key, ...ancestorPaths(key)].reduce(
+      (sum, path) => sum + (this.keyVersions.get(path) ?? 0),
+      0
+    );
   }
 
   get useSlice(): FormHooks<T>['useSlice'] {
-    return (keys) => {
-      const [fields, setFields] = useState(() => this.form.getSlice(keys));
-      const [isValidating, setIsValidating] = useState(this.form.isValidating);
-
-      useEffect(() => {
-        const unsubscribers: FieldUnsubscribeFn[] = [];
-        let pendingUpdate = false;
-
-        const scheduleUpdate = () => {
-          if (!pendingUpdate) {
-            pendingUpdate = true;
-            queueMicrotask(() => {
-              pendingUpdate = false;
-              setFields(this.form.getSlice(keys));
-            });
-          }
-        };
+    return <P extends Path<T>>(keys: readonly P[]) => {
+      const cache = useRef<SliceCache<T, P> | null>(null);
 
-        keys.forEach((key) => {
-          const unsubscribe = this.form.subscribeField(key, scheduleUpdate);
-          unsubscribers.push(unsubscribe);
-        });
+      // Cached until a field of the slice or the form state changes, so that
+      // unrelated updates don't re-render
+      const getSnapshot = (): SliceSnapshot<T, P> => {
+        const versions = [...keys, ROOT_KEY].map((key) => this.versionOf(key));
+        const submitState = this.getSubmitState();
+        const meta = [
+          this.form.isValidating,
+          ...Object.values(submitState),
+          this.historyState
+        ];
+        const cached = cache.current;
 
-        const unsubscribeValidationStart = this.form.on('validationStart', () =>
-          setIsValidating(true)
-        );
-        const unsubscribeValidated = this.form.on('validated', () => {
-          setIsValidating(false);
-        });
+        if (
+          cached &&
+          sameItems(cached.keys, keys) &&
+          sameItems(cached.versions, versions) &&
+          sameItems(cached.meta, meta)
+        ) {
+          return cached.snapshot;
+        }
 
-        return () => {
-          unsubscribers.forEach((unsubscribe) => unsubscribe());
-          unsubscribeValidationStart();
-          unsubscribeValidated();
+        const fields = this.form.getSlice(keys);
+        const rootErrors = this.form.getRootErrors();
+        const snapshot: SliceSnapshot<T, P> = {
+          fields,
+          isTouched: Object.values<Field<unknown>>(fields).some(
+            (field) => field.isTouched
+          ),
+          isDirty: Object.values<Field<unknown>>(fields).some(
+            (field) => field.isDirty
+          ),
+          isValidating: this.form.isValidating,
+          rootError: rootErrors[0] ?? null,
+          rootErrors,
+          ...submitState,
+          ...this.historyState
         };
-      }, [keys]);
+        cache.current = { keys, versions, meta, snapshot };
+        return snapshot;
+      };
+
+      const state = useSyncExternalStore(
+        this.subscribeStore,
+        getSnapshot,
+        getSnapshot
+      );
 
       const emit: EmitFnEnhanced<T> = useMemo(() => {
         const emitFn = this.form.emit.bind(this.form);
@@ -94,59 +286,200 @@ export class FormBuilder<T extends Values> {
         });
       }, []);
       const once = useMemo(() => this.form.once.bind(this.form), []);
-      const isTouched = useMemo(() => {
-        return keys.some((key) => this.form.get(key).isTouched);
-      }, [keys]);
+
+      const idOf = useCallback(
+        (key: string): string => `${this.idPrefix}-${key}`,
+        []
+      );
 
       const inputProps = useCallback(
-        <K extends keyof T>(name: K): InputProps<K, T[K]> => {
+        <P extends Path<T>, I = PathValue<T, P>>(name: P): InputProps<P, I> => {
+          const error = this.form.get(name).error;
+          const id = idOf(name);
+
           return {
+            id,
             name,
-            value: this.form.getValue(name),
-            onChange: (value: T[K]) => {
-              this.form.emit('change', name, value);
+            value: this.form.getInput(name) as I,
+            onChange: (value: I) => {
+              this.form.emit('input', name, value);
             },
-            error: this.form.get(name).error
+            onBlur: () => {
+              this.form.emit('touch', name);
+            },
+            error,
+            'aria-invalid': error !== null,
+            'aria-describedby': error !== null ? `${id}-error` : undefined,
+            'aria-required': this.form.isRequired(name)
           };
         },
+        [idOf]
+      );
+
+      const labelProps = useCallback(
+        <P extends Path<T>>(key: P): LabelProps => ({
+          id: `${idOf(key)}-label`,
+          htmlFor: idOf(key)
+        }),
+        [idOf]
+      );
+
+      const errorProps = useCallback(
+        <P extends Path<T>>(key: P): ErrorProps => ({
+          id: `${idOf(key)}-error`,
+          role: 'alert'
+        }),
+        [idOf]
+      );
+
+      const handleSubmit = useCallback(
+        (onValid: SubmitHandler<T>, onInvalid?: InvalidSubmitHandler<T>) =>
+          (event?: { preventDefault?: () => void }) => {
+            event?.preventDefault?.();
+            return this.form.submit(onValid, onInvalid);
+          },
         []
       );
 
-      return { fields, isTouched, isValidating, emit, once, i: inputProps };
+      return {
+        ...state,
+        handleSubmit,
+        emit,
+        once,
+        i: inputProps,
+        labelProps,
+        errorProps
+      };
     };
   }
 
   get useForm(): FormHooks<T>['useForm'] {
     return () => {
-      const allKeys = Object.keys(this.form['initialValues']) as (keyof T)[];
+      const cache = useRef<Path<T>[] | null>(null);
+
+      // Top-level fields may come and go at runtime
+      const getKeys = (): Path<T>[] => {
+        const keys = Object.keys(this.form['initialValues']) as Path<T>[];
+        if (cache.current && sameItems(cache.current, keys)) {
+          return cache.current;
+        }
+
+        cache.current = keys;
+        return keys;
+      };
+
+      const allKeys = useSyncExternalStore(
+        this.subscribeStore,
+        getKeys,
+        getKeys
+      );
 
       return this.useSlice(allKeys) as FormCommons<T> & { fields: FieldSet<T> };
     };
   }
 
+  get useFieldArray(): FormHooks<T>['useFieldArray'] {
+    return <P extends ArrayPath<T>>(key: P) => {
+      const cache = useRef<ItemsCache<T, P> | null>(null);
+
+      // Item changes notify the array path as their ancestor
+      const getItems = (): FieldArrayItem<ArrayItem<T, P>>[] => {
+        const version = this.versionOf(key);
+        const cached = cache.current;
+        if (cached && cached.key === key && cached.version === version) {
+          return cached.items;
+        }
+
+        const items = this.form.getItems(key);
+        cache.current = { key, version, items };
+        return items;
+      };
+
+      const items = useSyncExternalStore(
+        this.subscribeStore,
+        getItems,
+        getItems
+      );
+
+      const helpers = useMemo(() => {
+        type Item = ArrayItem<T, ArrayPath<T>>;
+
+        return {
+          append: (item: ArrayItem<T, P>) =>
+            this.form.emit('append', key, item as Item),
+          insert: (index: number, item: ArrayItem<T, P>) =>
+            this.form.emit('insert', key, index, item as Item),
+          remove: (index: number) => this.form.emit('remove', key, index),
+          move: (from: number, to: number) =>
+            this.form.emit('move', key, from, to),
+          swap: (indexA: number, indexB: number) =>
+            this.form.emit('swap', key, indexA, indexB),
+          replace: (newItems: PathValue<T, P>) =>
+            this.form.emit(
+              'replace',
+              key,
+              newItems as PathValue<T, ArrayPath<T>>
+            )
+        };
+      }, [key]);
+
+      return { items, ...helpers };
+    };
+  }
+
+  private getSubmitState(): SubmitState {
+    return {
+      isSubmitting: this.form.isSubmitting,
+      isSubmitted: this.form.isSubmitted,
+      submitCount: this.form.submitCount,
+      submitError: this.form.submitError
+    };
+  }
+
   use<TArgs extends unknown[]>(
     plugin: PluginFunction<T, TArgs>,
     ...args: TArgs
-  ): FormBuilder<T> {
+  ): FormBuilder<T, TInputs> {
     plugin(this.form, ...args);
     return this;
   }
 
-  hooks(): FormHooks<T> {
+  /**
+   * Registers a transform of `key`, see `Form.registerTransform()`, and
+   * records its input type for `i(key)`.
+   */
+  transform<P extends Path<T>, I = string>(
+    key: P,
+    transform: FieldTransform<PathValue<T, P>, I>
+  ): FormBuilder<T, TInputs & { [K in P]: I }> {
+    this.form.registerTransform(key, transform);
+    return this as unknown as FormBuilder<T, TInputs & { [K in P]: I }>;
+  }
+
+  /**
+   * Tears the form down, see `Form.dispose()`.
+   */
+  dispose(): void {
+    this.form.dispose();
+  }
+
+  hooks(): FormHooks<T, TInputs> {
     return {
       useSlice: this.useSlice,
-      useForm: this.useForm
+      useForm: this.useForm,
+      useFieldArray: this.useFieldArray
     };
   }
 }
 
 export const fieldwise = <T extends Values>(
-  initialValues: T
+  initialValues: T,
+  options?: FieldwiseOptions<T>
 ): FormBuilder<T> => {
-  return new FormBuilder<T>(initialValues);
+  return new FormBuilder<T>(initialValues, options);
 };
 
-export const getValues = <T extends Values>(fields: Form<T>['fields']): T => {
+export const getValues = <T extends Values>(fields: FieldSet<T>): T => {
   return Object.entries(fields).reduce((acc, [key, field]) => {
     acc[key as keyof T] = field.value;
     return acc;
@@ -0,0 +1,96 @@
+import type { Form, Values } from './Form';
+
+export type HistoryOptions = {
+  /**
+   * Maximum number of undo steps kept. Defaults to 100.
+   */
+  limit?: number;
+  /**
+   * Changes of the same field made within this many milliseconds of each
+   * other are undone as one step. Defaults to 500.
+   */
+  groupDelay?: number;
+};
+
+// Events that change values without being recorded as undo steps
+const untrackedEvents = [
+  'append',
+  'insert',
+  'remove',
+  'move',
+  'swap',
+  'replace',
+  'addField',
+  'removeField'
+] as const;
+
+export function history<T extends Values>(options: HistoryOptions = {}) {
+  const { limit = 100, groupDelay = 500 } = options;
+
+  return function (form: Form<T>): void {
+    const undoStack: T[] = [];
+    const redoStack: T[] = [];
+    let current = form.getValues();
+    let lastChange: { key: string; time: number } | null = null;
+    let isRestoring = false;
+
+    const emitState = () => {
+      form.emit('historyChange', undoStack.length > 0, redoStack.length > 0);
+    };
+
+    const record = (key: string | null) => {
+      if (isRestoring) return;
+
+      const values = form.getValues();
+      if (values === current) return;
+
+      const now = Date.now();
+      const isGrouped =
+        key !== null &&
+        lastChange?.key === key &&
+        now - lastChange.time < groupDelay;
+
+      if (!isGrouped) {
+        undoStack.push(current);
+        if (undoStack.length > limit) undoStack.shift();
+      }
+
+      current = values;
+      lastChange = key === null ? null : { key, time: now };
+      redoStack.length = 0;
+      emitState();
+    };
+
+    const restore = (from: T[], to: T[]) => {
+      const values = from.pop();
+      if (!values) return;
+
+      to.push(current);
+      // Applied as an event, so that interceptors and plugins such as
+      // persist() and sync() see it, but not recorded as a new step
+      isRestoring = true;
+      try {
+        form.emit('changeMany', values);
+      } finally {
+        isRestoring = false;
+      }
+      current = form.getValues();
+      lastChange = null;
+      emitState();
+    };
+
+    // Registered after the default change handlers, so values are updated
+    form.on('change', (key) => record(key));
+    form.on('changeMany', () => record(null));
+    form.on('reset', () => record(null));
+
+    untrackedEvents.forEach((event) => {
+      form.on(event, () => {
+        current = form.getValues();
+      });
+    });
+
+    form.on('undo', () => restore(undoStack, redoStack));
+    form.on('redo', () => restore(redoStack, undoStack));
+  };
+}
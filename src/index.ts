@@ -1,3 +1,9 @@
 export * from './fieldwise';
 export * from './zod';
+export * from './history';
+export * from './persist';
+export * from './sync';
+export * from './provider';
+export * from './transforms';
 export * from './Form';
+export { deepEqual } from './deepEqual';
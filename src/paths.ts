@@ -0,0 +1,148 @@
+type Primitive = string | number | boolean | bigint | symbol | null | undefined;
+type Leaf = Primitive | Date | RegExp | ((...args: never[]) => unknown);
+
+// Caps recursion so self-referencing value types don't blow up the compiler
+type Depth = [never, 0, 1, 2, 3, 4, 5, 6, 7, 8];
+
+/**
+ * Union of all dot-separated paths into `T`, e.g. `'user' | 'user.address' |
+ * 'user.address.street'`. Array items are addressed by index: `'items.0'`.
+ */
+export type Path<T, D extends number = 9> = [D] extends [never]
+  ? never
+  : T extends Leaf
+  ? never
+  : T extends ReadonlyArray<infer V>
+  ? `${number}` | `${number}.${Path<V, Depth[D]>}`
+  : T extends object
+  ? {
+      [K in keyof T & string]: T[K] extends Leaf
+        ? K
+        : K | `${K}.${Path<T[K], Depth[D]>}`;
+    }[keyof T & string]
+  : never;
+
+/**
+ * Type of the value found at path `P` of `T`.
+ */
+export type PathValue<
+  T,
+  P extends string
+> = P extends `${infer K}.${infer Rest}`
+  ? K extends keyof T
+    ? PathValue<T[K], Rest>
+    : T extends ReadonlyArray<infer V>
+    ? K extends `${number}`
+      ? PathValue<V, Rest>
+      : never
+    : never
+  : P extends keyof T
+  ? T[P]
+  : T extends ReadonlyArray<infer V>
+  ? P extends `${number}`
+    ? V
+    : never
+  : never;
+
+export const splitPath = (path: string): string[] => path.split('.');
+
+export const isDescendantPath = (path: string, ancestor: string): boolean =>
+  path.startsWith(`${ancestor}.`);
+
+// 'a.b.c' => ['a.b', 'a']
+export const ancestorPaths = (path: string): string[] => {
+  const segments = splitPath(path);
+  const ancestors: string[] = [];
+
+  for (let i = segments.length - 1; i > 0; i--) {
+    ancestors.push(segments.slice(0, i).join('.'));
+  }
+
+  return ancestors;
+};
+
+const isContainer = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null;
+
+export function getIn(source: unknown, path: string): unknown {
+  return splitPath(path).reduce<unknown>(
+    (current, segment) => (isContainer(current) ? current[segment] : undefined),
+    source
+  );
+}
+
+export function hasPath(source: unknown, path: string): boolean {
+  let current = source;
+
+  for (const segment of splitPath(path)) {
+    if (!isContainer(current) || !(segment in current)) {
+      return false;
+    }
+    current = current[segment];
+  }
+
+  return true;
+}
+
+/**
+ * Returns a copy of `source` with `value` placed at `path`. Only containers
+ * along the path are copied, so untouched branches keep their references.
+ */
+export function setIn<S>(source: S, path: string, value: unknown): S {
+  const [head, ...rest] = splitPath(path);
+  const current = (isContainer(source) ? source : {}) as Record<
+    string,
+    unknown
+  >;
+  const next =
+    rest.length === 0 ? value : setIn(current[head], rest.join('.'), value);
+
+  if (Array.isArray(current)) {
+    const copy = current.slice();
+    copy[Number(head)] = next;
+    return copy as S;
+  }
+
+  return { ...current, [head]: next } as S;
+}
+
+/**
+ * Returns a copy of `source` without the value at `path`, copying only the
+ * containers along the path. Array items are spliced out.
+ */
+export function unsetIn<S>(source: S, path: string): S {
+  if (!hasPath(source, path)) return source;
+
+  const [head, ...rest] = splitPath(path);
+  const current = source as Record<string, unknown>;
+
+  if (rest.length > 0) {
+    return setIn(source, head, unsetIn(current[head], rest.join('.')));
+  }
+
+  if (Array.isArray(current)) {
+    const copy = current.slice();
+    copy.splice(Number(head), 1);
+    return copy as S;
+  }
+
+  const { [head]: _removed, ...others } = current;
+  return others as S;
+}
+
+/**
+ * Paths of `T` that hold arrays.
+ */
+export type ArrayPath<T> = {
+  [P in Path<T>]: PathValue<T, P> extends ReadonlyArray<unknown> ? P : never;
+}[Path<T>];
+
+/**
+ * Type of the items of the array found at path `P` of `T`.
+ */
+export type ArrayItem<T, P extends string> = PathValue<
+  T,
+  P
+> extends ReadonlyArray<infer V>
+  ? V
+  : never;
@@ -0,0 +1,192 @@
+import { getIn, setIn, unsetIn } from './paths';
+import type { Form, Values, Path } from './Form';
+
+/**
+ * Subset of the Web Storage API used to keep drafts. `localStorage` and
+ * `sessionStorage` can be passed as is.
+ */
+export type DraftStorage = {
+  getItem(key: string): string | null;
+  setItem(key: string, value: string): void;
+  removeItem(key: string): void;
+};
+
+export type DraftMigration = (values: Values) => Values;
+
+export type PersistOptions<T extends Values> = {
+  /** Storage key of the draft. */
+  key: string;
+  /** Defaults to `localStorage`, or to memory where it is not available. */
+  storage?: DraftStorage;
+  /** Version of the values shape. Defaults to 1. */
+  version?: number;
+  /**
+   * Migrations of draft values keyed by the version they migrate from, e.g.
+   * `{ 1: (values) => ({ ...values, phone: '' }) }` turns a version 1 draft
+   * into a version 2 one. Drafts that cannot be migrated are discarded.
+   */
+  migrations?: Record<number, DraftMigration>;
+  /** Milliseconds after which a saved draft is discarded. */
+  maxAge?: number;
+  /** Paths that are never saved, e.g. passwords. */
+  exclude?: Path<T>[];
+  /** Also save which fields are touched. Defaults to `false`. */
+  touched?: boolean;
+  /** Milliseconds to wait after the last change before saving. Defaults to 300. */
+  debounce?: number;
+};
+
+type Draft = {
+  version: number;
+  savedAt: number;
+  values: Values;
+  touched?: string[];
+};
+
+// Events after which the draft is saved
+const saveEvents = [
+  'change',
+  'changeMany',
+  'append',
+  'insert',
+  'remove',
+  'move',
+  'swap',
+  'replace',
+  'addField',
+  'removeField'
+] as const;
+
+export function memoryStorage(): DraftStorage {
+  const items = new Map<string, string>();
+
+  return {
+    getItem: (key) => items.get(key) ?? null,
+    setItem: (key, value) => {
+      items.set(key, value);
+    },
+    removeItem: (key) => {
+      items.delete(key);
+    }
+  };
+}
+
+export function persist<T extends Values>(options: PersistOptions<T>) {
+  const {
+    key,
+    storage = typeof localStorage === 'undefined'
+      ? memoryStorage()
+      : localStorage,
+    version = 1,
+    migrations = {},
+    maxAge,
+    exclude = [],
+    touched = false,
+    debounce = 300
+  } = options;
+
+  const readDraft = (): Draft | null => {
+    try {
+      const raw = storage.getItem(key);
+      return raw ? (JSON.parse(raw) as Draft) : null;
+    } catch {
+      return null;
+    }
+  };
+
+  const migrate = (draft: Draft): Values | null => {
+    let values = draft.values;
+
+    for (let from = draft.version; from < version; from++) {
+      if (!migrations[from]) return null;
+      values = migrations[from](values);
+    }
+
+    return draft.version > version ? null : values;
+  };
+
+  return function (form: Form<T>): void {
+    let timer: ReturnType<typeof setTimeout> | null = null;
+
+    const save = () => {
+      const draft: Draft = {
+        version,
+        savedAt: Date.now(),
+        values: exclude.reduce<Values>(
+          (values, path) => unsetIn(values, path),
+          form.getValues()
+        )
+      };
+      if (touched) {
+        draft.touched = form.getTouchedKeys();
+      }
+
+      try {
+        storage.setItem(key, JSON.stringify(draft));
+      } catch {
+        // Storage is full or unavailable: keep the form working without it
+      }
+    };
+
+    const scheduleSave = () => {
+      if (timer) clearTimeout(timer);
+      timer = setTimeout(() => {
+        timer = null;
+        save();
+      }, debounce);
+    };
+
+    const discard = () => {
+      if (timer) clearTimeout(timer);
+      timer = null;
+      storage.removeItem(key);
+    };
+
+    const draft = readDraft();
+    const isExpired =
+      draft !== null &&
+      maxAge !== undefined &&
+      Date.now() - draft.savedAt > maxAge;
+    const values = draft && !isExpired ? migrate(draft) : null;
+
+    if (values) {
+      // Excluded fields keep their initial values
+      const restored = exclude.reduce(
+        (acc, path) => setIn(acc, path, getIn(form.initialValues, path)),
+        values as T
+      );
+
+      // Restored as state rather than with `reset`, which would make the
+      // draft the dirty baseline and hide the unsaved changes
+      form.fromSnapshot({ ...form.toSnapshot(), values: restored });
+      if (draft?.touched?.length) {
+        form.emit('touchMany', draft.touched as Path<T>[]);
+      }
+    } else if (draft) {
+      discard();
+    }
+
+    saveEvents.forEach((event) => {
+      form.on(event, scheduleSave);
+    });
+    if (touched) {
+      form.on('touch', scheduleSave);
+      form.on('touchMany', scheduleSave);
+    }
+
+    // The draft is no longer needed once the form is reset or submitted,
+    // unless the submit handler failed and the values have to be sent again
+    form.on('reset', discard);
+    form.on('submitted', (_values, errors) => {
+      if (!errors && form.submitError == null) discard();
+    });
+    // Save changes still waiting for the debounce
+    form.on('dispose', () => {
+      if (timer) {
+        clearTimeout(timer);
+        timer = null;
+        save();
+      }
+    });
+  };
+}
@@ -0,0 +1,129 @@
+import {
+  createContext,
+  createElement,
+  useContext,
+  useEffect,
+  useId,
+  useMemo,
+  useRef,
+  useState
+} from 'react';
+import { FormBuilder } from './fieldwise';
+import type { Context, ReactNode } from 'react';
+import type {
+  FieldwiseOptions,
+  FormHooks,
+  InputTypes,
+  PluginFunction
+} from './fieldwise';
+import type { FieldTransform, Path, PathValue, Values } from './Form';
+
+/**
+ * Describes a form once; `FormProvider` creates an instance of it per mount.
+ */
+export class FormDefinition<T extends Values, TInputs extends InputTypes = {}> {
+  public readonly context: Context<FormHooks<T, TInputs> | null> =
+    createContext<FormHooks<T, TInputs> | null>(null);
+  private plugins: Array<(builder: FormBuilder<T>) => void> = [];
+
+  constructor(
+    private initialValues: T,
+    private options?: FieldwiseOptions<T>
+  ) {}
+
+  use<TArgs extends unknown[]>(
+    plugin: PluginFunction<T, TArgs>,
+    ...args: TArgs
+  ): FormDefinition<T, TInputs> {
+    this.plugins.push((builder) => builder.use(plugin, ...args));
+    return this;
+  }
+
+  /**
+   * Registers a transform of `key` on every instance, see
+   * `FormBuilder.transform()`.
+   */
+  transform<P extends Path<T>, I = string>(
+    key: P,
+    transform: FieldTransform<PathValue<T, P>, I>
+  ): FormDefinition<T, TInputs & { [K in P]: I }> {
+    this.plugins.push((builder) => builder.transform(key, transform));
+    return this as unknown as FormDefinition<T, TInputs & { [K in P]: I }>;
+  }
+
+  /**
+   * `instanceId` tells the element ids of this instance apart from those of
+   * other instances, after the `id` option of the definition if given.
+   */
+  create(
+    initialValues: T = this.initialValues,
+    instanceId?: string
+  ): FormBuilder<T, TInputs> {
+    const id =
+      [this.options?.id, instanceId].filter(Boolean).join('-') || undefined;
+    const builder = new FormBuilder<T>(initialValues, { ...this.options, id });
+    this.plugins.forEach((apply) => apply(builder));
+    return builder as FormBuilder<T, TInputs>;
+  }
+}
+
+export type FormProviderProps<
+  T extends Values,
+  TInputs extends InputTypes = {}
+> = {
+  form: FormDefinition<T, TInputs>;
+  /**
+   * Overrides the initial values of the definition. Read on mount only.
+   */
+  initialValues?: T;
+  children?: ReactNode;
+};
+
+export const defineForm = <T extends Values>(
+  initialValues: T,
+  options?: FieldwiseOptions<T>
+): FormDefinition<T> => {
+  return new FormDefinition<T>(initialValues, options);
+};
+
+export function FormProvider<
+  T extends Values,
+  TInputs extends InputTypes = {}
+>({ form, initialValues, children }: FormProviderProps<T, TInputs>) {
+  // useId() matches between server and client rendering
+  const instanceId = useId();
+  const [builder] = useState(() => form.create(initialValues, instanceId));
+  const mounts = useRef(0);
+
+  useEffect(() => {
+    mounts.current++;
+
+    return () => {
+      mounts.current--;
+      // Strict mode unmounts and mounts again right away: only dispose
+      // once the provider stays unmounted
+      queueMicrotask(() => {
+        if (mounts.current === 0) builder.dispose();
+      });
+    };
+  }, [builder]);
+
+  const hooks = useMemo(() => builder.hooks(), [builder]);
+
+  return createElement(form.context.Provider, { value: hooks }, children);
+}
+
+/**
+ * Hooks of the instance of `form` provided by the closest `FormProvider`.
+ */
+export function useFormInstance<
+  T extends Values,
+  TInputs extends InputTypes = {}
+>(form: FormDefinition<T, TInputs>): FormHooks<T, TInputs> {
+  const hooks = useContext(form.context);
+  if (!hooks) {
+    throw new Error('useFormInstance must be used inside a FormProvider');
+  }
+
+  return hooks;
+}
@@ -0,0 +1,202 @@
+import { isDescendantPath } from './paths';
+import type { Form, Values, EventMap, Path } from './Form';
+
+type SyncedEvent = 'change' | 'changeMany' | 'reset';
+
+export type SyncMessage = {
+  /** Id of the sending form, used to drop echoes of own messages. */
+  source: string;
+  event: SyncedEvent;
+  args: unknown[];
+  time: number;
+};
+
+/**
+ * Delivers messages between forms, e.g. over a `BroadcastChannel`.
+ */
+export type SyncTransport = {
+  postMessage(message: SyncMessage): void;
+  subscribe(listener: (message: SyncMessage) => void): () => void;
+  /** Called when the form is disposed, if the transport was made for it. */
+  close?(): void;
+};
+
+export type SyncConflict = {
+  key: string;
+  localValue: unknown;
+  remoteValue: unknown;
+  localTime: number;
+  remoteTime: number;
+};
+
+/**
+ * Decides which value wins when another tab changes a field that has been
+ * edited locally: `'latest'` keeps the most recent edit, `'local'` and
+ * `'remote'` always keep the respective one.
+ */
+export type ConflictPolicy =
+  | 'latest'
+  | 'local'
+  | 'remote'
+  | ((conflict: SyncConflict) => 'local' | 'remote');
+
+export type SyncOptions = {
+  /** Defaults to `'latest'`. */
+  conflict?: ConflictPolicy;
+} & (
+  | {
+      /** Name of a `BroadcastChannel` to sync over. */
+      channel: string;
+      transport?: never;
+    }
+  | { transport: SyncTransport; channel?: never }
+);
+
+export function broadcastChannel(name: string): SyncTransport {
+  const channel = new BroadcastChannel(name);
+
+  return {
+    postMessage: (message) => channel.postMessage(message),
+    subscribe: (listener) => {
+      const handleMessage = (event: MessageEvent<SyncMessage>) =>
+        listener(event.data);
+
+      channel.addEventListener('message', handleMessage);
+      return () => channel.removeEventListener('message', handleMessage);
+    },
+    close: () => channel.close()
+  };
+}
+
+export function sync<T extends Values>(options: SyncOptions) {
+  const { conflict = 'latest' } = options;
+
+  return function (form: Form<T>): void {
+    const transport = options.transport ?? broadcastChannel(options.channel!);
+    const source = Math.random().toString(36).slice(2);
+    // Time of the latest local edit of each path
+    const localEdits = new Map<string, number>();
+    let isApplying = false;
+
+    const isRelated = (path: string, key: string) =>
+      path === key ||
+      isDescendantPath(path, key) ||
+      isDescendantPath(key, path);
+
+    const localEditTime = (key: string): number | null => {
+      let time: number | null = null;
+      localEdits.forEach((editTime, path) => {
+        if (isRelated(path, key) && (time === null || editTime > time)) {
+          time = editTime;
+        }
+      });
+      return time;
+    };
+
+    // The remote value has replaced local edits of the path
+    const forgetEdits = (key: string) => {
+      localEdits.forEach((_time, path) => {
+        if (isRelated(path, key)) localEdits.delete(path);
+      });
+    };
+
+    // Edits made in the same millisecond are decided by the source ids, so
+    // that both forms pick the same winner
+    const isRemoteLatest = (
+      localTime: number,
+      remoteTime: number,
+      remoteSource: string
+    ): boolean =>
+      remoteTime === localTime ? remoteSource > source : remoteTime > localTime;
+
+    const acceptsRemote = (
+      key: string,
+      remoteValue: unknown,
+      remoteTime: number,
+      remoteSource: string
+    ): boolean => {
+      const localTime = localEditTime(key);
+      if (localTime === null) return true;
+
+      const winner =
+        typeof conflict === 'function'
+          ? conflict({
+              key,
+              localValue: form.getValue(key as Path<T>),
+              remoteValue,
+              localTime,
+              remoteTime
+            })
+          : conflict === 'latest'
+          ? isRemoteLatest(localTime, remoteTime, remoteSource)
+            ? 'remote'
+            : 'local'
+          : conflict;
+
+      return winner === 'remote';
+    };
+
+    const post = (event: SyncedEvent, args: unknown[]) => {
+      if (isApplying) return;
+
+      transport.postMessage({ source, event, args, time: Date.now() });
+    };
+
+    const apply = <E extends SyncedEvent>(event: E, args: EventMap<T>[E]) => {
+      isApplying = true;
+      try {
+        form.emit(event, ...args);
+      } finally {
+        isApplying = false;
+      }
+    };
+
+    const receive = ({ source: from, event, args, time }: SyncMessage) => {
+      if (from === source) return;
+
+      if (event === 'change') {
+        const [key, value] = args as EventMap<T>['change'];
+        if (acceptsRemote(key, value, time, from)) {
+          forgetEdits(key);
+          apply('change', [key, value]);
+        }
+      } else if (event === 'changeMany') {
+        const [payload] = args as EventMap<T>['changeMany'];
+        const accepted = Object.fromEntries(
+          Object.entries(payload).filter(([key, value]) =>
+            acceptsRemote(key, value, time, from)
+          )
+        ) as Partial<T>;
+
+        Object.keys(accepted).forEach(forgetEdits);
+        apply('changeMany', [accepted]);
+      } else if (event === 'reset') {
+        localEdits.clear();
+        apply('reset', args as EventMap<T>['reset']);
+      }
+    };
+
+    form.on('change', (key, value) => {
+      if (!isApplying) localEdits.set(key, Date.now());
+      post('change', [key, value]);
+    });
+    form.on('changeMany', (payload) => {
+      if (!isApplying) {
+        Object.keys(payload).forEach((key) => localEdits.set(key, Date.now()));
+      }
+      post('changeMany', [payload]);
+    });
+    // Other forms may start from different initial values
+    form.on('reset', () => {
+      if (!isApplying) localEdits.clear();
+      post('reset', [form.getValues()]);
+    });
+
+    const unsubscribe = transport.subscribe(receive);
+    form.on('dispose', () => {
+      unsubscribe();
+      // A transport passed in may be shared with other forms
+      if (!options.transport) transport.close?.();
+    });
+  };
+}
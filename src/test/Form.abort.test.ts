@@ -0,0 +1,193 @@
+import { describe, it, expect, vi } from 'vitest';
+import { FormBuilder } from '../fieldwise';
+
+const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe('Form - Stale Validation Runs', () => {
+  it('should pass an AbortSignal to validators', async () => {
+    const form = (new FormBuilder({ name: '' }) as any).form;
+    const validator = vi.fn((_values: any, _errors: any, _signal: any) => null);
+
+    form.registerValidator(validator);
+    form.emit('validate');
+    await delay(0);
+
+    expect(validator.mock.calls[0][2]).toBeInstanceOf(AbortSignal);
+    expect(validator.mock.calls[0][2].aborted).toBe(false);
+  });
+
+  it('should abort previous run when a new one starts', async () => {
+    const form = (new FormBuilder({ name: '' }) as any).form;
+    const signals: AbortSignal[] = [];
+
+    form.registerValidator(
+      async (_values: any, _errors: any, signal: AbortSignal) => {
+        signals.push(signal);
+        await delay(5);
+        return null;
+      }
+    );
+    form.emit('validate');
+    form.emit('validate');
+    await delay(10);
+
+    expect(signals).toHaveLength(2);
+    expect(signals[0].aborted).toBe(true);
+    expect(signals[1].aborted).toBe(false);
+  });
+
+  it('should emit validated only for the newest run', async () => {
+    const form = (new FormBuilder({ username: 'taken' }) as any).form;
+    const validated = vi.fn();
+
+    form.registerValidator(async (values: any, _errors: any) => {
+      // Older run resolves last
+      await delay(values.username === 'taken' ? 10 : 1);
+      return values.username === 'taken' ? { username: 'Taken' } : null;
+    });
+    form.on('validated', validated);
+
+    form.emit('validate');
+    form.setValue('username', 'free');
+    await delay(20);
+
+    expect(validated).toHaveBeenCalledTimes(1);
+    expect(validated).toHaveBeenCalledWith({ username: 'free' }, null, null);
+  });
+
+  it('should keep isValidating until the newest run completes', async () => {
+    const form = (new FormBuilder({ name: '' }) as any).form;
+    let call = 0;
+
+    form.registerValidator(async () => {
+      await delay(++call === 1 ? 2 : 10);
+      return null;
+    });
+    form.emit('validate');
+    form.emit('validate');
+    await delay(5);
+
+    expect(form.isValidating).toBe(true);
+
+    await delay(10);
+    expect(form.isValidating).toBe(false);
+  });
+
+  it('should abort run on value change and validate new values', async () => {
+    const form = (new FormBuilder({ name: 'a' }) as any).form;
+    const signals: AbortSignal[] = [];
+    const validated = vi.fn();
+
+    form.registerValidator(
+      async (values: any, _errors: any, signal: AbortSignal) => {
+        signals.push(signal);
+        await delay(5);
+        return { name: values.name };
+      }
+    );
+    form.on('validated', validated);
+
+    form.emit('validate');
+    form.emit('change', 'name', 'b');
+    await delay(10);
+
+    expect(signals[0].aborted).toBe(true);
+    expect(validated).toHaveBeenCalledTimes(1);
+    expect(validated).toHaveBeenCalledWith({ name: 'b' }, { name: 'b' }, null);
+  });
+
+  it('should ignore rejections of aborted validators', async () => {
+    const form = (new FormBuilder({ name: '' }) as any).form;
+    const validated = vi.fn();
+
+    form.registerValidator(
+      (_values: any, _errors: any, signal: AbortSignal) =>
+        new Promise((resolve, reject) => {
+          signal.addEventListener('abort', () => reject(new Error('Aborted')));
+          setTimeout(() => resolve(null), 5);
+        })
+    );
+    form.on('validated', validated);
+
+    form.emit('validate');
+    form.emit('validate');
+    await delay(10);
+
+    expect(validated).toHaveBeenCalledTimes(1);
+  });
+
+  it('should settle failed runs without unhandled rejections', async () => {
+    const form = (new FormBuilder({ name: '' }) as any).form;
+    const unhandled = vi.fn();
+    const validated = vi.fn();
+
+    form.registerValidator(async () => {
+      await delay(5);
+      throw new Error('net');
+    });
+    process.on('unhandledRejection', unhandled);
+
+    form.once('validated', validated);
+    form.emit('validate');
+    // Restarts the run in flight
+    form.emit('change', 'name', 'John');
+    await delay(20);
+    process.off('unhandledRejection', unhandled);
+
+    expect(unhandled).not.toHaveBeenCalled();
+    expect(validated).toHaveBeenCalledWith({ name: 'John' }, null, null);
+    expect(form.isValidating).toBe(false);
+  });
+
+  it('should report failed runs of a submit as submitError', async () => {
+    const form = (new FormBuilder({ name: '' }) as any).form;
+    const onValid = vi.fn();
+    const error = new Error('net');
+
+    form.registerValidator(async () => {
+      throw error;
+    });
+    await form.submit(onValid);
+
+    expect(onValid).not.toHaveBeenCalled();
+    expect(form.submitError).toBe(error);
+  });
+
+  it('should submit values validated by the newest run', async () => {
+    const form = (new FormBuilder({ name: 'a' }) as any).form;
+    const onValid = vi.fn();
+
+    form.registerValidator(async (_values: any, _errors: any) => {
+      await delay(5);
+      return null;
+    });
+
+    const submission = form.submit(onValid);
+    form.emit('change', 'name', 'b');
+    await submission;
+
+    expect(onValid).toHaveBeenCalledWith({ name: 'b' });
+  });
+
+  it('should abort stale field validation', async () => {
+    const form = (
+      new FormBuilder({ username: '' }, { mode: 'onChange' }) as any
+    ).form;
+    const signals: AbortSignal[] = [];
+
+    form.registerFieldValidator(
+      'username',
+      async (value: string, _values: any, signal: AbortSignal) => {
+        signals.push(signal);
+        await delay(5);
+        return value === 'taken' ? 'Taken' : null;
+      }
+    );
+    form.emit('change', 'username', 'taken');
+    form.emit('change', 'username', 'free');
+    await delay(10);
+
+    expect(signals[0].aborted).toBe(true);
+    expect(form.get('username').error).toBe(null);
+  });
+});
@@ -42,11 +42,11 @@ describe('Form - Advanced Features', () => {
       const builder = new FormBuilder({ name: '' });
       const form = (builder as any).form;
 
-      // Emit validationStart before handler is registered (no default handler for this)
-      form.emit('validationStart');
+      // Emit undo before handler is registered (no default handler without history())
+      form.emit('undo');
 
       const handler = vi.fn();
-      form.on('validationStart', handler);
+      form.on('undo', handler);
 
       // Handler should receive queued event
       expect(handler).toHaveBeenCalled();
@@ -56,13 +56,13 @@ describe('Form - Advanced Features', () => {
       const builder = new FormBuilder({ name: '' });
       const form = (builder as any).form;
 
-      // Use validationStart which has no default handler
-      form.emit('validationStart');
-      form.emit('validationStart');
-      form.emit('validationStart');
+      // Use undo which has no default handler
+      form.emit('undo');
+      form.emit('undo');
+      form.emit('undo');
 
       const handler = vi.fn();
-      form.on('validationStart', handler);
+      form.on('undo', handler);
 
       expect(handler).toHaveBeenCalledTimes(3);
     });
@@ -71,11 +71,11 @@ describe('Form - Advanced Features', () => {
       const builder = new FormBuilder({ name: '' });
       const form = (builder as any).form;
 
-      form.emit('validationStart');
-      form.emit('validationStart');
+      form.emit('undo');
+      form.emit('undo');
 
       const handler = vi.fn();
-      form.once('validationStart', handler);
+      form.once('undo', handler);
 
       // Should only process first queued event
       expect(handler).toHaveBeenCalledTimes(1);
@@ -202,7 +202,8 @@ describe('Form - Advanced Features', () => {
       // Should receive sync errors as second argument
       expect(mockAsyncValidator).toHaveBeenCalledWith(
         { email: '', username: '' },
-        { email: 'Email required' }
+        { email: 'Email required' },
+        expect.any(AbortSignal)
       );
 
       // Should only have email error (async validator returned null)
@@ -0,0 +1,213 @@
+import { describe, it, expect, vi } from 'vitest';
+import { FormBuilder } from '../fieldwise';
+
+const createForm = () =>
+  (
+    new FormBuilder({
+      title: '',
+      items: [{ name: 'a' }, { name: 'b' }, { name: 'c' }]
+    }) as any
+  ).form;
+
+const names = (form: any) =>
+  form.getValue('items').map((item: any) => item.name);
+
+describe('Form - Field Arrays', () => {
+  describe('item keys', () => {
+    it('should generate a stable key per item', () => {
+      const form = createForm();
+      const keys = form.getItemKeys('items');
+
+      expect(keys).toHaveLength(3);
+      expect(new Set(keys).size).toBe(3);
+      expect(form.getItemKeys('items')).toEqual(keys);
+    });
+
+    it('should keep item keys on nested item changes', () => {
+      const form = createForm();
+      const keys = form.getItemKeys('items');
+
+      form.emit('change', 'items.1.name', 'B');
+
+      expect(form.getItemKeys('items')).toEqual(keys);
+    });
+
+    it('should expose items with their keys and field state', () => {
+      const form = createForm();
+      const [key] = form.getItemKeys('items');
+
+      expect(form.getItems('items')[0]).toEqual({
+        key,
+        value: { name: 'a' },
+        error: null,
+        errors: [],
+        warnings: [],
+        isTouched: false,
+        isDirty: false
+      });
+    });
+  });
+
+  describe('append event', () => {
+    it('should add item to the end with a new key', () => {
+      const form = createForm();
+      const keys = form.getItemKeys('items');
+
+      form.emit('append', 'items', { name: 'd' });
+
+      expect(names(form)).toEqual(['a', 'b', 'c', 'd']);
+      expect(form.getItemKeys('items').slice(0, 3)).toEqual(keys);
+      expect(keys).not.toContain(form.getItemKeys('items')[3]);
+    });
+  });
+
+  describe('insert event', () => {
+    it('should insert item at index', () => {
+      const form = createForm();
+      const keys = form.getItemKeys('items');
+
+      form.emit('insert', 'items', 1, { name: 'x' });
+
+      expect(names(form)).toEqual(['a', 'x', 'b', 'c']);
+      expect(form.getItemKeys('items')[2]).toBe(keys[1]);
+    });
+
+    it('should shift field state of following items', () => {
+      const form = createForm();
+
+      form.emit('errors', { 'items.1.name': 'Invalid' });
+      form.emit('insert', 'items', 0, { name: 'x' });
+
+      expect(form.get('items.1.name').error).toBe(null);
+      expect(form.get('items.2.name').error).toBe('Invalid');
+    });
+  });
+
+  describe('remove event', () => {
+    it('should remove item and drop its state', () => {
+      const form = createForm();
+      const keys = form.getItemKeys('items');
+
+      form.emit('errors', { 'items.1.name': 'Invalid', 'items.2.name': 'Bad' });
+      form.emit('remove', 'items', 1);
+
+      expect(names(form)).toEqual(['a', 'c']);
+      expect(form.getItemKeys('items')).toEqual([keys[0], keys[2]]);
+      expect(form.get('items.1.name').error).toBe('Bad');
+      expect(form.get('items.2.name').error).toBe(null);
+    });
+
+    it('should move blur flags with their items', () => {
+      const form = (
+        new FormBuilder(
+          { items: [{ name: 'a' }, { name: 'b' }, { name: 'c' }] },
+          { mode: 'onTouched' }
+        ) as any
+      ).form;
+      form.registerValidator((values: any) =>
+        values.items[1]?.name ? null : { 'items.1.name': 'Required' }
+      );
+
+      form.emit('touch', 'items.2.name');
+      form.emit('remove', 'items', 1);
+      form.emit('change', 'items.1.name', '');
+
+      expect(form.get('items.1.name').error).toBe('Required');
+    });
+
+    it('should ignore out of range index', () => {
+      const form = createForm();
+
+      form.emit('remove', 'items', 5);
+
+      expect(names(form)).toEqual(['a', 'b', 'c']);
+    });
+  });
+
+  describe('move event', () => {
+    it('should move item with its key and state', () => {
+      const form = createForm();
+      const keys = form.getItemKeys('items');
+
+      form.emit('touch', 'items.0.name');
+      form.emit('errors', { 'items.0.name': 'Invalid' });
+      form.emit('move', 'items', 0, 2);
+
+      expect(names(form)).toEqual(['b', 'c', 'a']);
+      expect(form.getItemKeys('items')).toEqual([keys[1], keys[2], keys[0]]);
+      expect(form.get('items.2.name')).toMatchObject({
+        error: 'Invalid',
+        isTouched: true
+      });
+      expect(form.get('items.0.name').isTouched).toBe(false);
+    });
+  });
+
+  describe('swap event', () => {
+    it('should swap items with their keys and state', () => {
+      const form = createForm();
+      const keys = form.getItemKeys('items');
+
+      form.emit('errors', { 'items.0': 'First' });
+      form.emit('swap', 'items', 0, 2);
+
+      expect(names(form)).toEqual(['c', 'b', 'a']);
+      expect(form.getItemKeys('items')).toEqual([keys[2], keys[1], keys[0]]);
+      expect(form.get('items.2').error).toBe('First');
+      expect(form.get('items.0').error).toBe(null);
+    });
+  });
+
+  describe('replace event', () => {
+    it('should replace all items with new keys and clear item state', () => {
+      const form = createForm();
+      const keys = form.getItemKeys('items');
+
+      form.emit('errors', { 'items.0.name': 'Invalid' });
+      form.emit('replace', 'items', [{ name: 'x' }]);
+
+      expect(names(form)).toEqual(['x']);
+      expect(keys).not.toContain(form.getItemKeys('items')[0]);
+      expect(form.get('items.0.name').error).toBe(null);
+    });
+  });
+
+  describe('notifications', () => {
+    it('should notify array and item subscribers', () => {
+      const form = createForm();
+      const array = vi.fn();
+      const item = vi.fn();
+      const title = vi.fn();
+
+      form.subscribeField('items', array);
+      form.subscribeField('items.0.name', item);
+      form.subscribeField('title', title);
+      form.emit('remove', 'items', 0);
+
+      expect(array).toHaveBeenCalledTimes(1);
+      expect(item).toHaveBeenCalledWith(
+        expect.objectContaining({ value: 'b' })
+      );
+      expect(title).not.toHaveBeenCalled();
+    });
+
+    it('should mark array field as touched', () => {
+      const form = createForm();
+
+      form.emit('append', 'items', { name: 'd' });
+
+      expect(form.get('items').isTouched).toBe(true);
+    });
+  });
+
+  describe('reset', () => {
+    it('should regenerate item keys', () => {
+      const form = createForm();
+      const keys = form.getItemKeys('items');
+
+      form.emit('reset');
+
+      expect(form.getItemKeys('items')).not.toEqual(keys);
+    });
+  });
+});
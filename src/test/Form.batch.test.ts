@@ -0,0 +1,164 @@
+import { describe, it, expect, vi } from 'vitest';
+import { FormBuilder } from '../fieldwise';
+import { history } from '../history';
+
+const createForm = () =>
+  (
+    new FormBuilder({
+      name: '',
+      email: '',
+      address: { city: '', zip: '' }
+    }) as any
+  ).form;
+
+describe('Form - Batch Updates', () => {
+  it('should notify each field once when the batch ends', () => {
+    const form = createForm();
+    const name = vi.fn();
+    const address = vi.fn();
+
+    form.subscribeField('name', name);
+    form.subscribeField('address', address);
+    form.batch(() => {
+      form.emit('change', 'name', 'J');
+      form.emit('change', 'name', 'John');
+      form.setValue('address.city', 'Springfield');
+      form.setValue('address.zip', '12345');
+
+      expect(name).not.toHaveBeenCalled();
+      expect(address).not.toHaveBeenCalled();
+    });
+
+    expect(name).toHaveBeenCalledTimes(1);
+    expect(name).toHaveBeenCalledWith(
+      expect.objectContaining({ value: 'John' })
+    );
+    expect(address).toHaveBeenCalledTimes(1);
+  });
+
+  it('should emit a single changeMany instead of change events', () => {
+    const form = createForm();
+    const change = vi.fn();
+    const changeMany = vi.fn();
+
+    form.on('change', change);
+    form.on('changeMany', changeMany);
+    form.batch(() => {
+      form.emit('change', 'name', 'John');
+      form.emit('changeMany', { email: 'john@example.com' });
+      form.setValue('address.city', 'Springfield');
+    });
+
+    expect(change).not.toHaveBeenCalled();
+    expect(changeMany).toHaveBeenCalledTimes(1);
+    expect(changeMany).toHaveBeenCalledWith({
+      name: 'John',
+      email: 'john@example.com',
+      address: { city: 'Springfield', zip: '' }
+    });
+  });
+
+  it('should not emit changeMany when nothing changed', () => {
+    const form = createForm();
+    const changeMany = vi.fn();
+
+    form.on('changeMany', changeMany);
+    form.batch(() => {
+      form.emit('change', 'name', '');
+    });
+
+    expect(changeMany).not.toHaveBeenCalled();
+  });
+
+  it('should return the result of the callback', () => {
+    const form = createForm();
+
+    expect(form.batch(() => 42)).toBe(42);
+  });
+
+  it('should roll back and rethrow when the callback throws', () => {
+    const form = createForm();
+    const subscriber = vi.fn();
+    const changeMany = vi.fn();
+
+    form.subscribeField('name', subscriber);
+    form.on('changeMany', changeMany);
+
+    expect(() =>
+      form.batch(() => {
+        form.emit('change', 'name', 'John');
+        form.emit('touch', 'email');
+        throw new Error('Prefill failed');
+      })
+    ).toThrow('Prefill failed');
+
+    expect(form.getValue('name')).toBe('');
+    expect(form.get('email').isTouched).toBe(false);
+    expect(subscriber).not.toHaveBeenCalled();
+    expect(changeMany).not.toHaveBeenCalled();
+  });
+
+  it('should roll back only the nested batch that throws', () => {
+    const form = createForm();
+
+    form.batch(() => {
+      form.emit('change', 'name', 'John');
+      try {
+        form.batch(() => {
+          form.emit('change', 'email', 'john@example.com');
+          throw new Error('Invalid email');
+        });
+      } catch {
+        // Keep the outer changes
+      }
+    });
+
+    expect(form.getValues()).toMatchObject({ name: 'John', email: '' });
+  });
+
+  it('should be recorded as a single history step', () => {
+    const builder = new FormBuilder({ name: '', email: '' });
+    history()(builder['form']);
+    const form = builder['form'];
+
+    form.batch(() => {
+      form.emit('change', 'name', 'John');
+      form.emit('change', 'email', 'john@example.com');
+    });
+    form.emit('undo');
+
+    expect(form.getValues()).toEqual({ name: '', email: '' });
+  });
+
+  it('should report array operations as part of the changeMany', () => {
+    const form = (new FormBuilder({ items: ['x'] }) as any).form;
+    const append = vi.fn();
+    const changeMany = vi.fn();
+
+    form.on('append', append);
+    form.on('changeMany', changeMany);
+    form.batch(() => {
+      form.emit('append', 'items', 'y');
+    });
+
+    expect(append).not.toHaveBeenCalled();
+    expect(changeMany).toHaveBeenCalledWith({ items: ['x', 'y'] });
+  });
+
+  it('should keep rolled back array operations from history', () => {
+    const builder = new FormBuilder({ name: '', items: ['x'] });
+    history()(builder['form']);
+    const form = builder['form'];
+
+    expect(() =>
+      form.batch(() => {
+        form.emit('append', 'items', 'y');
+        throw new Error('failed');
+      })
+    ).toThrow('failed');
+    form.emit('change', 'name', 'John');
+    form.emit('undo');
+
+    expect(form.getValues()).toEqual({ name: '', items: ['x'] });
+  });
+});
@@ -0,0 +1,144 @@
+import { describe, it, expect, vi } from 'vitest';
+import { FormBuilder } from '../fieldwise';
+
+type Values = {
+  firstName: string;
+  lastName: string;
+  fullName: string;
+  items: { price: number; qty: number }[];
+  total: number;
+  tax: number;
+};
+
+const initialValues: Values = {
+  firstName: 'John',
+  lastName: 'Doe',
+  fullName: '',
+  items: [{ price: 10, qty: 2 }],
+  total: 0,
+  tax: 0
+};
+
+const sum = (values: Values) =>
+  values.items.reduce((acc, item) => acc + item.price * item.qty, 0);
+
+const createForm = () => (new FormBuilder(initialValues) as any).form;
+
+describe('Form - Computed Fields', () => {
+  it('should compute the value on registration', () => {
+    const form = createForm();
+
+    form.registerComputed(
+      'fullName',
+      ['firstName', 'lastName'],
+      (values: Values) => `${values.firstName} ${values.lastName}`
+    );
+
+    expect(form.get('fullName')).toMatchObject({
+      value: 'John Doe',
+      isDirty: false
+    });
+  });
+
+  it('should recompute when a dependency changes', () => {
+    const form = createForm();
+    const subscriber = vi.fn();
+
+    form.registerComputed(
+      'fullName',
+      ['firstName', 'lastName'],
+      (values: Values) => `${values.firstName} ${values.lastName}`
+    );
+    form.subscribeField('fullName', subscriber);
+    form.emit('change', 'lastName', 'Smith');
+
+    expect(form.getValue('fullName')).toBe('John Smith');
+    expect(subscriber).toHaveBeenCalledWith(
+      expect.objectContaining({ value: 'John Smith', isDirty: true })
+    );
+  });
+
+  it('should recompute on changes nested in a dependency', () => {
+    const form = createForm();
+
+    form.registerComputed('total', ['items'], sum);
+    expect(form.getValue('total')).toBe(20);
+
+    form.emit('change', 'items.0.qty', 3);
+    expect(form.getValue('total')).toBe(30);
+
+    form.emit('append', 'items', { price: 5, qty: 1 });
+    expect(form.getValue('total')).toBe(35);
+  });
+
+  it('should recompute fields depending on computed fields', () => {
+    const form = createForm();
+
+    form.registerComputed('total', ['items'], sum);
+    form.registerComputed(
+      'tax',
+      ['total'],
+      (values: Values) => values.total * 0.2
+    );
+    form.emit('change', 'items.0.price', 20);
+
+    expect(form.getValue('tax')).toBe(8);
+  });
+
+  it('should not notify when the computed value stays the same', () => {
+    const form = createForm();
+    const subscriber = vi.fn();
+
+    form.registerComputed('total', ['items'], sum);
+    form.subscribeField('total', subscriber);
+    form.emit('change', 'items', [{ price: 20, qty: 1 }]);
+
+    expect(subscriber).not.toHaveBeenCalled();
+  });
+
+  it('should be read-only', () => {
+    const form = createForm();
+
+    form.registerComputed('total', ['items'], sum);
+    form.emit('change', 'total', 100);
+
+    expect(form.getValue('total')).toBe(20);
+  });
+
+  it('should recompute on reset', () => {
+    const form = createForm();
+
+    form.registerComputed('total', ['items'], sum);
+    form.emit('reset', { ...initialValues, items: [{ price: 1, qty: 1 }] });
+
+    expect(form.get('total')).toMatchObject({ value: 1, isDirty: false });
+  });
+
+  it('should pass computed values to validators and submit by default', async () => {
+    const form = createForm();
+    const validator = vi.fn(() => null);
+    const onValid = vi.fn();
+
+    form.registerComputed('total', ['items'], sum);
+    form.registerValidator(validator);
+    await form.submit(onValid);
+
+    expect(validator).toHaveBeenCalledWith(
+      expect.objectContaining({ total: 20 })
+    );
+    expect(onValid).toHaveBeenCalledWith(
+      expect.objectContaining({ total: 20 })
+    );
+  });
+
+  it('should leave out computed values excluded from submit', async () => {
+    const form = createForm();
+    const onValid = vi.fn();
+
+    form.registerComputed('total', ['items'], sum, { includeInSubmit: false });
+    await form.submit(onValid);
+
+    expect(onValid.mock.calls[0][0]).not.toHaveProperty('total');
+    expect(form.getValue('total')).toBe(20);
+  });
+});
@@ -0,0 +1,123 @@
+import { describe, it, expect, vi } from 'vitest';
+import { FormBuilder } from '../fieldwise';
+
+const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe('Form - Debounced Validators', () => {
+  it('should run a debounced field validator once after changes settle', async () => {
+    const form = (
+      new FormBuilder({ username: '' }, { mode: 'onChange' }) as any
+    ).form;
+    const validator = vi.fn((value: string) =>
+      value === 'taken' ? 'Taken' : null
+    );
+
+    form.registerFieldValidator('username', validator, { debounce: 20 });
+    form.emit('change', 'username', 't');
+    form.emit('change', 'username', 'ta');
+    form.emit('change', 'username', 'taken');
+
+    expect(validator).not.toHaveBeenCalled();
+    await delay(30);
+
+    expect(validator).toHaveBeenCalledTimes(1);
+    expect(validator.mock.calls[0][0]).toBe('taken');
+    expect(form.get('username').error).toBe('Taken');
+  });
+
+  it('should run non-debounced validators right away', async () => {
+    const form = (
+      new FormBuilder({ username: '' }, { mode: 'onChange' }) as any
+    ).form;
+    const debounced = vi.fn(() => null);
+
+    form.registerFieldValidator('username', (value: string) =>
+      value.length < 3 ? 'Too short' : null
+    );
+    form.registerFieldValidator('username', debounced, { debounce: 20 });
+    form.emit('change', 'username', 'ab');
+
+    expect(form.get('username').error).toBe('Too short');
+    expect(debounced).not.toHaveBeenCalled();
+
+    await delay(30);
+    expect(debounced).toHaveBeenCalledTimes(1);
+    expect(form.get('username').error).toBe('Too short');
+  });
+
+  it('should support debounce for form-level validators', async () => {
+    const form = (new FormBuilder({ email: '' }, { mode: 'onChange' }) as any)
+      .form;
+    const validator = vi.fn((values: any) =>
+      values.email.includes('@') ? null : { email: 'Invalid email' }
+    );
+
+    form.registerValidator(validator, { debounce: 20 });
+    form.emit('change', 'email', 'john');
+
+    expect(validator).not.toHaveBeenCalled();
+    await delay(30);
+
+    expect(validator).toHaveBeenCalledTimes(1);
+    expect(form.get('email').error).toBe('Invalid email');
+  });
+
+  it('should report pending debounced validation as isValidating', async () => {
+    const form = (
+      new FormBuilder({ username: '' }, { mode: 'onChange' }) as any
+    ).form;
+    const validatingChange = vi.fn();
+
+    form.registerFieldValidator('username', () => null, { debounce: 20 });
+    form.on('validatingChange', validatingChange);
+    form.emit('change', 'username', 'john');
+
+    expect(form.isValidating).toBe(true);
+    expect(validatingChange).toHaveBeenCalledWith(true);
+
+    await delay(30);
+    expect(form.isValidating).toBe(false);
+    expect(validatingChange).toHaveBeenLastCalledWith(false);
+    expect(validatingChange).toHaveBeenCalledTimes(2);
+  });
+
+  it('should run debounced validators immediately on submit', async () => {
+    const form = (
+      new FormBuilder({ username: '' }, { mode: 'onChange' }) as any
+    ).form;
+    const validator = vi.fn(async (value: string) => {
+      await delay(5);
+      return value === 'taken' ? 'Taken' : null;
+    });
+    const onValid = vi.fn();
+    const onInvalid = vi.fn();
+
+    form.registerFieldValidator('username', validator, { debounce: 1000 });
+    form.emit('change', 'username', 'taken');
+    await form.submit(onValid, onInvalid);
+
+    expect(validator).toHaveBeenCalledTimes(1);
+    expect(onValid).not.toHaveBeenCalled();
+    expect(onInvalid).toHaveBeenCalledWith(
+      { username: 'Taken' },
+      { username: 'taken' }
+    );
+  });
+
+  it('should cancel pending debounced validation on reset', async () => {
+    const form = (
+      new FormBuilder({ username: '' }, { mode: 'onChange' }) as any
+    ).form;
+    const validator = vi.fn(() => 'Taken');
+
+    form.registerFieldValidator('username', validator, { debounce: 20 });
+    form.emit('change', 'username', 'taken');
+    form.emit('reset');
+
+    expect(form.isValidating).toBe(false);
+    await delay(30);
+
+    expect(validator).not.toHaveBeenCalled();
+    expect(form.get('username').error).toBe(null);
+  });
+});
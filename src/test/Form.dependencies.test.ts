@@ -0,0 +1,104 @@
+import { describe, it, expect } from 'vitest';
+import { z } from 'zod';
+import { FormBuilder } from '../fieldwise';
+import { zod } from '../zod';
+import type { FormOptions } from '../Form';
+
+type Values = { password: string; confirmPassword: string };
+
+const mismatch = (values: Values) =>
+  values.password === values.confirmPassword ? null : 'Passwords must match';
+
+const createForm = (options: FormOptions = { mode: 'onChange' }) => {
+  const form = (
+    new FormBuilder<Values>(
+      { password: '', confirmPassword: '' },
+      options
+    ) as any
+  ).form;
+  form.registerDependencies('confirmPassword', ['password']);
+  return form;
+};
+
+describe('Form - Field Dependencies', () => {
+  it('should revalidate a dependent field with field validators', () => {
+    const form = createForm();
+    form.registerFieldValidator(
+      'confirmPassword',
+      (_value: string, values: Values) => mismatch(values)
+    );
+
+    form.emit('change', 'confirmPassword', 'secret');
+    expect(form.get('confirmPassword').error).toBe('Passwords must match');
+
+    form.emit('change', 'password', 'secret');
+    expect(form.get('confirmPassword').error).toBe(null);
+
+    form.emit('change', 'password', 'secret!');
+    expect(form.get('confirmPassword').error).toBe('Passwords must match');
+  });
+
+  it('should revalidate a dependent field with form-level validators', () => {
+    const form = createForm();
+    form.registerValidator((values: Values) => {
+      const error = mismatch(values);
+      return error ? { confirmPassword: error } : null;
+    });
+
+    form.emit('change', 'password', 'secret');
+    form.emit('change', 'confirmPassword', 'secret');
+    expect(form.get('confirmPassword').error).toBe(null);
+
+    form.emit('change', 'password', 'secret!');
+    expect(form.get('confirmPassword').error).toBe('Passwords must match');
+  });
+
+  it('should revalidate a dependent field with the zod plugin', async () => {
+    const form = createForm();
+    const schema = z
+      .object({ password: z.string(), confirmPassword: z.string() })
+      .refine((data) => data.password === data.confirmPassword, {
+        message: 'Passwords must match',
+        path: ['confirmPassword']
+      });
+    zod(schema)(form);
+
+    form.emit('change', 'confirmPassword', 'secret');
+    expect(form.get('confirmPassword').error).toBe('Passwords must match');
+
+    form.emit('change', 'password', 'secret');
+    expect(form.get('confirmPassword').error).toBe(null);
+  });
+
+  it('should not validate dependent fields that have not been touched', () => {
+    const form = createForm();
+    form.registerFieldValidator(
+      'confirmPassword',
+      (_value: string, values: Values) => mismatch(values)
+    );
+
+    form.emit('change', 'password', 'secret');
+
+    expect(form.get('confirmPassword').error).toBe(null);
+  });
+
+  it('should clear the error when the mode does not validate on change', () => {
+    const form = createForm({ mode: 'onSubmit' });
+
+    form.emit('errors', { confirmPassword: 'Passwords must match' });
+    form.emit('change', 'password', 'secret');
+
+    expect(form.get('confirmPassword').error).toBe(null);
+  });
+
+  it('should keep errors of fields that do not depend on the change', () => {
+    const form = createForm({ mode: 'onSubmit' });
+
+    form.emit('errors', { confirmPassword: 'Passwords must match' });
+    form.emit('change', 'confirmPassword', 'secret');
+    form.emit('errors', { password: 'Too short' });
+    form.emit('change', 'confirmPassword', 'secret!');
+
+    expect(form.get('password').error).toBe('Too short');
+  });
+});
@@ -0,0 +1,116 @@
+import { describe, it, expect } from 'vitest';
+import { FormBuilder } from '../fieldwise';
+
+const initialValues = {
+  name: 'John',
+  tags: ['a'],
+  address: { street: 'Main St', city: 'Springfield' }
+};
+
+describe('Form - Dirty Tracking', () => {
+  describe('field isDirty', () => {
+    it('should be false initially', () => {
+      const form = (new FormBuilder(initialValues) as any).form;
+
+      expect(form.get('name').isDirty).toBe(false);
+      expect(form.isDirty()).toBe(false);
+    });
+
+    it('should be true when value differs from initial value', () => {
+      const form = (new FormBuilder(initialValues) as any).form;
+
+      form.emit('change', 'name', 'Jane');
+
+      expect(form.get('name').isDirty).toBe(true);
+      expect(form.get('tags').isDirty).toBe(false);
+      expect(form.isDirty()).toBe(true);
+    });
+
+    it('should be false when value is changed back', () => {
+      const form = (new FormBuilder(initialValues) as any).form;
+
+      form.emit('change', 'tags', ['a', 'b']);
+      form.emit('change', 'tags', ['a']);
+
+      expect(form.get('tags').isDirty).toBe(false);
+      expect(form.get('tags').isTouched).toBe(true);
+      expect(form.isDirty()).toBe(false);
+    });
+
+    it('should propagate to ancestors of nested fields', () => {
+      const form = (new FormBuilder(initialValues) as any).form;
+
+      form.emit('change', 'address.city', 'Shelbyville');
+
+      expect(form.get('address.city').isDirty).toBe(true);
+      expect(form.get('address').isDirty).toBe(true);
+      expect(form.get('address.street').isDirty).toBe(false);
+    });
+  });
+
+  describe('getDirtyKeys', () => {
+    it('should return paths of changed values', () => {
+      const form = (new FormBuilder(initialValues) as any).form;
+
+      form.emit('change', 'name', 'Jane');
+      form.emit('change', 'address.city', 'Shelbyville');
+      form.emit('change', 'tags', ['b']);
+
+      expect(form.getDirtyKeys()).toEqual(['name', 'tags', 'address.city']);
+    });
+  });
+
+  describe('getDirtyValues', () => {
+    it('should return only changed values keeping nesting', () => {
+      const form = (new FormBuilder(initialValues) as any).form;
+
+      form.emit('change', 'address.city', 'Shelbyville');
+      form.emit('change', 'tags', ['b']);
+
+      expect(form.getDirtyValues()).toEqual({
+        tags: ['b'],
+        address: { city: 'Shelbyville' }
+      });
+    });
+
+    it('should return empty object for pristine form', () => {
+      const form = (new FormBuilder(initialValues) as any).form;
+
+      expect(form.getDirtyValues()).toEqual({});
+    });
+  });
+
+  describe('equality', () => {
+    it('should use custom equality function', () => {
+      const form = (
+        new FormBuilder(
+          { name: 'John' },
+          {
+            isEqual: (a: unknown, b: unknown) =>
+              String(a).toLowerCase() === String(b).toLowerCase()
+          }
+        ) as any
+      ).form;
+
+      form.emit('change', 'name', 'JOHN');
+
+      expect(form.get('name').isDirty).toBe(false);
+      expect(form.getDirtyKeys()).toEqual([]);
+    });
+  });
+
+  describe('reset', () => {
+    it('should use reset snapshot as new baseline', () => {
+      const form = (new FormBuilder(initialValues) as any).form;
+
+      form.emit('reset', { ...initialValues, name: 'Jane' });
+
+      expect(form.get('name').isDirty).toBe(false);
+      expect(form.initialValues.name).toBe('Jane');
+
+      form.emit('change', 'name', 'John');
+
+      expect(form.get('name').isDirty).toBe(true);
+    });
+  });
+});
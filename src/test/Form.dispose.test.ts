@@ -0,0 +1,63 @@
+import { describe, it, expect, vi } from 'vitest';
+import { FormBuilder } from '../fieldwise';
+
+describe('Form - Dispose', () => {
+  it('should emit dispose and drop handlers and subscribers', () => {
+    const form = (new FormBuilder({ name: '' }) as any).form;
+    const dispose = vi.fn();
+    const change = vi.fn();
+    const subscriber = vi.fn();
+
+    form.on('dispose', dispose);
+    form.on('change', change);
+    form.subscribeField('name', subscriber);
+    form.dispose();
+    form.emit('change', 'name', 'John');
+
+    expect(dispose).toHaveBeenCalledTimes(1);
+    expect(change).not.toHaveBeenCalled();
+    expect(subscriber).not.toHaveBeenCalled();
+  });
+
+  it('should abort pending validation', async () => {
+    const form = (new FormBuilder({ name: '' }) as any).form;
+    let signal: AbortSignal | undefined;
+    const validated = vi.fn();
+
+    form.registerValidator(
+      (_values: any, _errors: any, abortSignal: AbortSignal) => {
+        signal = abortSignal;
+        return new Promise(() => {});
+      }
+    );
+    form.on('validated', validated);
+    form.emit('validate');
+    form.dispose();
+    await Promise.resolve();
+
+    expect(signal?.aborted).toBe(true);
+    expect(validated).not.toHaveBeenCalled();
+  });
+
+  it('should settle validation in flight when disposed', async () => {
+    const form = (new FormBuilder({ name: '' }) as any).form;
+    const onValid = vi.fn();
+    const onInvalid = vi.fn();
+
+    form.registerValidator(
+      () =>
+        new Promise((resolve) =>
+          setTimeout(() => resolve({ name: 'Required' }), 5)
+        )
+    );
+    form.emit('validate');
+    const submitting = form.submit(onValid, onInvalid);
+    form.dispose();
+    await submitting;
+    await new Promise((resolve) => setTimeout(resolve, 10));
+
+    expect(onValid).not.toHaveBeenCalled();
+    expect(onInvalid).not.toHaveBeenCalled();
+    expect(form.submitError).toBeNull();
+  });
+});
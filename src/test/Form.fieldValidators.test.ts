@@ -0,0 +1,167 @@
+import { describe, it, expect, vi } from 'vitest';
+import { FormBuilder } from '../fieldwise';
+
+const required = (value: unknown) => (value ? null : 'Required');
+
+describe('Form - Field Validators', () => {
+  it('should validate field when it changes', () => {
+    const form = (new FormBuilder({ name: 'John', email: '' }) as any).form;
+    const emailValidator = vi.fn(required);
+
+    form.registerFieldValidator('name', required);
+    form.registerFieldValidator('email', emailValidator);
+    form.emit('change', 'name', '');
+
+    expect(form.get('name').error).toBe('Required');
+    expect(form.get('email').error).toBe(null);
+    expect(emailValidator).not.toHaveBeenCalled();
+  });
+
+  it('should validate field when it is touched', () => {
+    const form = (new FormBuilder({ name: '' }) as any).form;
+
+    form.registerFieldValidator('name', required);
+    form.emit('touch', 'name');
+
+    expect(form.get('name').error).toBe('Required');
+  });
+
+  it('should pass field value and all values to validator', () => {
+    const form = (new FormBuilder({ password: '', confirmPassword: '' }) as any)
+      .form;
+    const validator = vi.fn(() => null);
+
+    form.registerFieldValidator('confirmPassword', validator);
+    form.emit('change', 'confirmPassword', 'secret');
+
+    expect(validator).toHaveBeenCalledWith(
+      'secret',
+      { password: '', confirmPassword: 'secret' },
+      expect.any(AbortSignal)
+    );
+  });
+
+  it('should use first error of multiple validators', () => {
+    const form = (new FormBuilder({ name: 'John' }) as any).form;
+
+    form.registerFieldValidator('name', required);
+    form.registerFieldValidator('name', (value: string) =>
+      value.length < 3 ? 'Too short' : null
+    );
+    form.registerFieldValidator('name', () => 'Always fails');
+    form.emit('change', 'name', 'Jo');
+
+    expect(form.get('name').error).toBe('Too short');
+  });
+
+  it('should set error from async validator', async () => {
+    const form = (new FormBuilder({ username: '' }) as any).form;
+
+    form.registerFieldValidator('username', async (value: string) => {
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      return value === 'taken' ? 'Username taken' : null;
+    });
+    form.emit('change', 'username', 'taken');
+
+    expect(form.get('username').error).toBe(null);
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    expect(form.get('username').error).toBe('Username taken');
+  });
+
+  it('should discard async result for outdated value', async () => {
+    const form = (new FormBuilder({ username: '' }) as any).form;
+
+    form.registerFieldValidator('username', async (value: string) => {
+      await new Promise((resolve) => setTimeout(resolve, value.length));
+      return value === 'taken' ? 'Username taken' : null;
+    });
+    form.emit('change', 'username', 'taken');
+    form.emit('change', 'username', 'free');
+
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    expect(form.get('username').error).toBe(null);
+  });
+
+  it('should validate nested field when parent is replaced', () => {
+    const form = (new FormBuilder({ user: { name: 'John' } }) as any).form;
+
+    form.registerFieldValidator('user.name', required);
+    form.emit('change', 'user', { name: '' });
+
+    expect(form.get('user.name').error).toBe('Required');
+  });
+
+  it('should run field validators on validate event', async () => {
+    const form = (new FormBuilder({ name: '', email: '' }) as any).form;
+
+    form.registerValidator((values: any) =>
+      values.email ? null : { email: 'Email required' }
+    );
+    form.registerFieldValidator('name', required);
+    form.registerFieldValidator('email', async () => null);
+
+    let validatedErrors: any = null;
+    form.once('validated', (_values: any, errors: any) => {
+      validatedErrors = errors;
+    });
+    form.emit('validate');
+    await new Promise((resolve) => setTimeout(resolve, 10));
+
+    expect(validatedErrors).toEqual({
+      name: 'Required',
+      email: 'Email required'
+    });
+  });
+
+  it('should clear the error when an async validator rejects', async () => {
+    const form = (new FormBuilder({ username: '' }) as any).form;
+    const unhandled = vi.fn();
+    let isOffline = false;
+
+    form.registerFieldValidator('username', async () => {
+      if (isOffline) throw new Error('network down');
+      return 'Taken';
+    });
+    process.on('unhandledRejection', unhandled);
+
+    form.emit('change', 'username', 'john');
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    expect(form.get('username').error).toBe('Taken');
+
+    isOffline = true;
+    form.emit('change', 'username', 'jane');
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    process.off('unhandledRejection', unhandled);
+
+    expect(form.get('username').error).toBe(null);
+    expect(form.isValidating).toBe(false);
+    expect(unhandled).not.toHaveBeenCalled();
+  });
+
+  it('should report fields whose validators are required', () => {
+    const form = (new FormBuilder({ name: '', email: '' }) as any).form;
+
+    form.registerFieldValidator('name', required, { required: true });
+    form.registerValidator(() => null, { required: ['email'] });
+
+    expect(form.isRequired('name')).toBe(true);
+    expect(form.isRequired('email')).toBe(true);
+    expect(form.isRequired('city')).toBe(false);
+  });
+
+  it('should pass field validator errors to error-dependent validators', async () => {
+    const form = (new FormBuilder({ name: '' }) as any).form;
+    const dependent = vi.fn((_values: any, _syncErrors: any) => null);
+
+    form.registerFieldValidator('name', required);
+    form.registerValidator(dependent);
+    form.emit('validate');
+    await new Promise((resolve) => setTimeout(resolve, 10));
+
+    expect(dependent).toHaveBeenCalledWith(
+      { name: '' },
+      { name: 'Required' },
+      expect.any(AbortSignal)
+    );
+  });
+});
@@ -0,0 +1,137 @@
+import { describe, it, expect, vi } from 'vitest';
+import { FormBuilder } from '../fieldwise';
+
+type Values = {
+  name: string;
+  company?: { name: string; vat: string };
+};
+
+const createForm = (values: Values = { name: 'John' }) =>
+  (new FormBuilder<Values>(values) as any).form;
+
+describe('Form - Runtime Fields', () => {
+  describe('addField event', () => {
+    it('should add the field with its initial value as baseline', () => {
+      const form = createForm();
+
+      form.emit('addField', 'company', { name: 'Acme', vat: '' });
+
+      expect(form.getValues()).toEqual({
+        name: 'John',
+        company: { name: 'Acme', vat: '' }
+      });
+      expect(form.get('company.name')).toMatchObject({
+        value: 'Acme',
+        isDirty: false
+      });
+      expect(form.isDirty()).toBe(false);
+    });
+
+    it('should ignore fields that already exist', () => {
+      const form = createForm();
+
+      form.emit('addField', 'name', 'Jane');
+
+      expect(form.getValue('name')).toBe('John');
+    });
+
+    it('should notify subscribers of the field and nested paths', () => {
+      const form = createForm();
+      const company = vi.fn();
+      const companyName = vi.fn();
+
+      form.subscribeField('company', company);
+      form.subscribeField('company.name', companyName);
+      form.emit('addField', 'company', { name: 'Acme', vat: '' });
+
+      expect(company).toHaveBeenCalledTimes(1);
+      expect(companyName).toHaveBeenCalledWith(
+        expect.objectContaining({ value: 'Acme' })
+      );
+    });
+  });
+
+  describe('removeField event', () => {
+    it('should drop the field with its state', () => {
+      const form = createForm({
+        name: 'John',
+        company: { name: 'Acme', vat: '' }
+      });
+
+      form.emit('errors', { 'company.vat': 'Required' });
+      form.emit('touch', 'company.name');
+      form.emit('removeField', 'company');
+
+      expect(form.getValues()).toEqual({ name: 'John' });
+      expect(form.get('company.vat')).toMatchObject({
+        value: undefined,
+        error: null,
+        isTouched: false
+      });
+    });
+
+    it('should leave removed fields out of validation', async () => {
+      const form = createForm({
+        name: 'John',
+        company: { name: 'Acme', vat: '' }
+      });
+      const vatValidator = vi.fn(() => 'Required');
+      const onValid = vi.fn();
+
+      form.registerValidator(() => ({ 'company.vat': 'Required' }));
+      form.registerFieldValidator('company.vat', vatValidator);
+      form.emit('removeField', 'company');
+      await form.submit(onValid);
+
+      expect(vatValidator).not.toHaveBeenCalled();
+      expect(onValid).toHaveBeenCalledWith({ name: 'John' });
+    });
+
+    it('should restore a kept value when the field is added again', () => {
+      const form = createForm({
+        name: 'John',
+        company: { name: 'Acme', vat: '' }
+      });
+
+      form.emit('change', 'company.vat', 'GB123');
+      form.emit('removeField', 'company', { keepValue: true });
+      expect(form.getValues()).toEqual({ name: 'John' });
+
+      form.emit('addField', 'company', { name: '', vat: '' });
+      expect(form.getValue('company')).toEqual({ name: 'Acme', vat: 'GB123' });
+      expect(form.get('company.vat').isDirty).toBe(true);
+    });
+
+    it('should remove array items like the remove event', () => {
+      const form = (
+        new FormBuilder({
+          items: [{ name: 'a' }, { name: 'b' }, { name: 'c' }]
+        }) as any
+      ).form;
+      const keys = form.getItemKeys('items');
+
+      form.emit('errors', { 'items.2.name': 'Bad' });
+      form.emit('touch', 'items.2.name');
+      form.emit('removeField', 'items.1');
+
+      expect(form.getValue('items')).toEqual([{ name: 'a' }, { name: 'c' }]);
+      expect(form.getItemKeys('items')).toEqual([keys[0], keys[2]]);
+      expect(form.get('items.1.name')).toMatchObject({
+        error: 'Bad',
+        isTouched: true
+      });
+    });
+
+    it('should use the initial value when the value was not kept', () => {
+      const form = createForm({
+        name: 'John',
+        company: { name: 'Acme', vat: '' }
+      });
+
+      form.emit('removeField', 'company');
+      form.emit('addField', 'company', { name: '', vat: '' });
+
+      expect(form.getValue('company')).toEqual({ name: '', vat: '' });
+    });
+  });
+});
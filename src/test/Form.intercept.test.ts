@@ -0,0 +1,100 @@
+import { describe, it, expect, vi } from 'vitest';
+import { FormBuilder } from '../fieldwise';
+
+describe('Form - Event Middleware', () => {
+  it('should transform event arguments before handlers run', () => {
+    const form = (new FormBuilder({ code: '' }) as any).form;
+
+    form.intercept('change', ([key, value]: [string, unknown], next: any) =>
+      next([key, key === 'code' ? String(value).toUpperCase() : value])
+    );
+    form.emit('change', 'code', 'abc');
+
+    expect(form.getValue('code')).toBe('ABC');
+  });
+
+  it('should cancel the event when next is not called', () => {
+    const form = (new FormBuilder({ name: 'John' }) as any).form;
+    const handler = vi.fn();
+
+    form.intercept('change', () => {});
+    form.on('change', handler);
+    form.emit('change', 'name', 'Jane');
+
+    expect(form.getValue('name')).toBe('John');
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it('should pass the original arguments when next is called without any', () => {
+    const form = (new FormBuilder({ name: '' }) as any).form;
+    const audit = vi.fn();
+
+    form.intercept('change', (args: unknown[], next: any) => {
+      audit(args);
+      next();
+    });
+    form.emit('change', 'name', 'John');
+
+    expect(audit).toHaveBeenCalledWith(['name', 'John']);
+    expect(form.getValue('name')).toBe('John');
+  });
+
+  it('should run middlewares in the order they were added', () => {
+    const form = (new FormBuilder({ name: '' }) as any).form;
+
+    form.intercept('change', ([key, value]: [string, string], next: any) =>
+      next([key, value + 'a'])
+    );
+    form.intercept('change', ([key, value]: [string, string], next: any) =>
+      next([key, value + 'b'])
+    );
+    form.emit('change', 'name', '');
+
+    expect(form.getValue('name')).toBe('ab');
+  });
+
+  it('should stop intercepting after unsubscribing', () => {
+    const form = (new FormBuilder({ name: '' }) as any).form;
+
+    const unsubscribe = form.intercept('change', () => {});
+    form.emit('change', 'name', 'John');
+    expect(form.getValue('name')).toBe('');
+
+    unsubscribe();
+    form.emit('change', 'name', 'John');
+    expect(form.getValue('name')).toBe('John');
+  });
+
+  it('should only intercept the given event', () => {
+    const form = (new FormBuilder({ name: '' }) as any).form;
+
+    form.intercept('changeMany', () => {});
+    form.emit('change', 'name', 'John');
+
+    expect(form.getValue('name')).toBe('John');
+  });
+
+  it('should intercept events emitted later', async () => {
+    const form = (new FormBuilder({ name: '' }) as any).form;
+
+    form.intercept('change', () => {});
+    form.emitLater('change', 'name', 'John');
+    await new Promise((resolve) => setTimeout(resolve, 0));
+
+    expect(form.getValue('name')).toBe('');
+  });
+
+  it('should intercept changes made inside a batch', () => {
+    const form = (new FormBuilder({ name: '', city: '' }) as any).form;
+
+    form.intercept('change', ([key, value]: [string, unknown], next: any) => {
+      if (key !== 'city') next([key, value]);
+    });
+    form.batch(() => {
+      form.emit('change', 'name', 'John');
+      form.emit('change', 'city', 'Oslo');
+    });
+
+    expect(form.getValues()).toEqual({ name: 'John', city: '' });
+  });
+});
@@ -0,0 +1,261 @@
+import { describe, it, expect, vi } from 'vitest';
+import { FormBuilder } from '../fieldwise';
+
+const createForm = (options: Record<string, unknown> = {}) => {
+  const form = (new FormBuilder({ name: '', email: '' }, options) as any).form;
+  form.registerValidator((values: any) => {
+    const errors: Record<string, string> = {};
+    if (values.name.length < 3) errors.name = 'Too short';
+    if (!values.email) errors.email = 'Required';
+    return errors;
+  });
+  return form;
+};
+
+describe('Form - Validation Modes', () => {
+  describe('onSubmit mode (default)', () => {
+    it('should not validate on change or touch', () => {
+      const form = createForm();
+
+      form.emit('change', 'name', 'Jo');
+      form.emit('touch', 'email');
+
+      expect(form.get('name').error).toBe(null);
+      expect(form.get('email').error).toBe(null);
+    });
+
+    it('should clear field error on change', () => {
+      const form = createForm();
+
+      form.emit('errors', { name: 'Too short' });
+      form.emit('change', 'name', 'Jo');
+
+      expect(form.get('name').error).toBe(null);
+    });
+
+    it('should still run field validators on change and touch', () => {
+      const form = createForm();
+
+      form.registerFieldValidator('email', (value: string) =>
+        value.includes('@') ? null : 'Invalid email'
+      );
+      form.emit('change', 'email', 'john');
+      expect(form.get('email').error).toBe('Invalid email');
+
+      form.emit('change', 'name', 'Jo');
+      form.emit('touch', 'name');
+      expect(form.get('name').error).toBe(null);
+    });
+
+    it('should not run field validators when set explicitly', () => {
+      const form = createForm({ mode: 'onSubmit' });
+
+      form.registerFieldValidator('email', (value: string) =>
+        value.includes('@') ? null : 'Invalid email'
+      );
+      form.emit('change', 'email', 'john');
+      form.emit('touch', 'email');
+
+      expect(form.get('email').error).toBe(null);
+    });
+  });
+
+  describe('onChange mode', () => {
+    it('should validate changed field only', () => {
+      const form = createForm({ mode: 'onChange' });
+
+      form.emit('change', 'name', 'Jo');
+
+      expect(form.get('name').error).toBe('Too short');
+      expect(form.get('email').error).toBe(null);
+
+      form.emit('change', 'name', 'John');
+
+      expect(form.get('name').error).toBe(null);
+    });
+
+    it('should not validate on touch', () => {
+      const form = createForm({ mode: 'onChange' });
+
+      form.emit('touch', 'email');
+
+      expect(form.get('email').error).toBe(null);
+    });
+
+    it('should not emit validation events', () => {
+      const form = createForm({ mode: 'onChange' });
+      const validated = vi.fn();
+
+      form.on('validated', validated);
+      form.emit('change', 'name', 'Jo');
+
+      expect(validated).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('onBlur mode', () => {
+    it('should validate on touch only', () => {
+      const form = createForm({ mode: 'onBlur' });
+
+      form.emit('change', 'name', 'Jo');
+      expect(form.get('name').error).toBe(null);
+
+      form.emit('touch', 'name');
+      expect(form.get('name').error).toBe('Too short');
+    });
+
+    it('should validate on every touch', () => {
+      const form = createForm({ mode: 'onBlur' });
+
+      form.emit('touch', 'name');
+      form.emit('change', 'name', 'John');
+      form.emit('touch', 'name');
+
+      expect(form.get('name').error).toBe(null);
+    });
+  });
+
+  describe('onTouched mode', () => {
+    it('should validate on first blur and on changes afterwards', () => {
+      const form = createForm({ mode: 'onTouched' });
+
+      form.emit('change', 'name', 'J');
+      expect(form.get('name').error).toBe(null);
+
+      // Changed, but never blurred
+      form.emit('change', 'name', 'Jo');
+      expect(form.get('name').error).toBe(null);
+
+      form.emit('touch', 'name');
+      expect(form.get('name').error).toBe('Too short');
+
+      form.emit('change', 'name', 'J');
+      expect(form.get('name').error).toBe('Too short');
+
+      form.emit('change', 'email', 'john@example.com');
+      form.emit('touch', 'email');
+      expect(form.get('email').error).toBe(null);
+    });
+
+    it('should validate changes of a field touched on blur', () => {
+      const form = createForm({ mode: 'onTouched' });
+
+      form.emit('touch', 'name');
+      expect(form.get('name').error).toBe('Too short');
+
+      form.emit('change', 'name', 'John');
+      expect(form.get('name').error).toBe(null);
+    });
+
+    it('should forget blurred fields on reset', () => {
+      const form = createForm({ mode: 'onTouched' });
+
+      form.emit('touch', 'name');
+      form.emit('reset');
+      form.emit('change', 'name', 'Jo');
+
+      expect(form.get('name').error).toBe(null);
+    });
+  });
+
+  describe('all mode', () => {
+    it('should validate on change and touch', () => {
+      const form = createForm({ mode: 'all' });
+
+      form.emit('touch', 'email');
+      expect(form.get('email').error).toBe('Required');
+
+      form.emit('change', 'name', 'Jo');
+      expect(form.get('name').error).toBe('Too short');
+    });
+  });
+
+  describe('reValidateMode', () => {
+    it('should revalidate on change after submit by default', async () => {
+      const form = createForm();
+
+      form.emit('change', 'name', 'Jo');
+      expect(form.get('name').error).toBe(null);
+
+      await form.submit(vi.fn());
+      expect(form.get('name').error).toBe('Too short');
+
+      form.emit('change', 'name', 'John');
+      expect(form.get('name').error).toBe(null);
+
+      form.emit('change', 'name', 'J');
+      expect(form.get('name').error).toBe('Too short');
+    });
+
+    it('should keep errors until blur with onBlur', async () => {
+      const form = createForm({ reValidateMode: 'onBlur' });
+
+      await form.submit(vi.fn());
+      form.emit('change', 'name', 'John');
+      expect(form.get('name').error).toBe('Too short');
+
+      form.emit('touch', 'name');
+      expect(form.get('name').error).toBe(null);
+    });
+
+    it('should keep errors until next submit with onSubmit', async () => {
+      const form = createForm({ mode: 'all', reValidateMode: 'onSubmit' });
+
+      await form.submit(vi.fn());
+      form.emit('change', 'name', 'John');
+      form.emit('touch', 'name');
+      expect(form.get('name').error).toBe('Too short');
+
+      await form.submit(vi.fn());
+      expect(form.get('name').error).toBe(null);
+    });
+
+    it('should return to mode after reset', async () => {
+      const form = createForm();
+
+      await form.submit(vi.fn());
+      form.emit('reset');
+      form.emit('change', 'name', 'Jo');
+
+      expect(form.get('name').error).toBe(null);
+      expect(form.submitCount).toBe(0);
+    });
+  });
+
+  describe('async validators', () => {
+    it('should apply async result to changed field', async () => {
+      const form = (
+        new FormBuilder({ username: '' }, { mode: 'onChange' }) as any
+      ).form;
+      form.registerValidator(async (values: any) => {
+        await new Promise((resolve) => setTimeout(resolve, 5));
+        return values.username === 'taken' ? { username: 'Taken' } : null;
+      });
+
+      form.emit('change', 'username', 'taken');
+      await new Promise((resolve) => setTimeout(resolve, 10));
+
+      expect(form.get('username').error).toBe('Taken');
+    });
+  });
+
+  describe('nested fields', () => {
+    it('should apply errors of paths nested in changed field', () => {
+      const form = (
+        new FormBuilder(
+          { user: { name: 'John', email: 'a' } },
+          { mode: 'onChange' }
+        ) as any
+      ).form;
+      form.registerValidator((values: any) => ({
+        ...(values.user.name ? {} : { 'user.name': 'Required' }),
+        ...(values.user.email ? {} : { 'user.email': 'Required' })
+      }));
+
+      form.emit('change', 'user', { name: '', email: 'b' });
+
+      expect(form.get('user.name').error).toBe('Required');
+      expect(form.get('user.email').error).toBe(null);
+    });
+  });
+});
@@ -0,0 +1,160 @@
+import { describe, it, expect, vi } from 'vitest';
+import { FormBuilder } from '../fieldwise';
+
+const initialValues = {
+  name: 'John',
+  user: {
+    email: 'john@example.com',
+    address: { street: 'Main St', city: 'Springfield' }
+  }
+};
+
+describe('Form - Nested Values', () => {
+  describe('getValue', () => {
+    it('should read values by dot path', () => {
+      const form = (new FormBuilder(initialValues) as any).form;
+
+      expect(form.getValue('user.address.street')).toBe('Main St');
+      expect(form.getValue('user.address')).toEqual({
+        street: 'Main St',
+        city: 'Springfield'
+      });
+    });
+  });
+
+  describe('change event', () => {
+    it('should update nested value without mutating initial values', () => {
+      const form = (new FormBuilder(initialValues) as any).form;
+
+      form.emit('change', 'user.address.street', 'Elm St');
+
+      expect(form.getValue('user.address.street')).toBe('Elm St');
+      expect(form.getValue('user.address.city')).toBe('Springfield');
+      expect(initialValues.user.address.street).toBe('Main St');
+    });
+
+    it('should keep references of untouched branches', () => {
+      const form = (new FormBuilder(initialValues) as any).form;
+
+      form.emit('change', 'user.address.street', 'Elm St');
+
+      expect(form.getValue('user')).not.toBe(initialValues.user);
+      expect(form.getValues().name).toBe(initialValues.name);
+    });
+
+    it('should ignore unknown paths', () => {
+      const form = (new FormBuilder(initialValues) as any).form;
+
+      form.emit('change', 'user.phone', '555');
+
+      expect(form.getValue('user')).toBe(initialValues.user);
+    });
+
+    it('should mark nested field and its ancestors as touched', () => {
+      const form = (new FormBuilder(initialValues) as any).form;
+
+      form.emit('change', 'user.address.city', 'Shelbyville');
+
+      expect(form.get('user.address.city').isTouched).toBe(true);
+      expect(form.get('user').isTouched).toBe(true);
+      expect(form.get('user.address.street').isTouched).toBe(false);
+      expect(form.get('name').isTouched).toBe(false);
+    });
+  });
+
+  describe('subscriptions', () => {
+    it('should notify subscribers of the path and its ancestors only', () => {
+      const form = (new FormBuilder(initialValues) as any).form;
+      const street = vi.fn();
+      const address = vi.fn();
+      const user = vi.fn();
+      const city = vi.fn();
+      const email = vi.fn();
+
+      form.subscribeField('user.address.street', street);
+      form.subscribeField('user.address', address);
+      form.subscribeField('user', user);
+      form.subscribeField('user.address.city', city);
+      form.subscribeField('user.email', email);
+
+      form.emit('change', 'user.address.street', 'Elm St');
+
+      expect(street).toHaveBeenCalledTimes(1);
+      expect(address).toHaveBeenCalledTimes(1);
+      expect(user).toHaveBeenCalledTimes(1);
+      expect(city).not.toHaveBeenCalled();
+      expect(email).not.toHaveBeenCalled();
+    });
+
+    it('should notify nested subscribers when parent value is replaced', () => {
+      const form = (new FormBuilder(initialValues) as any).form;
+      const street = vi.fn();
+
+      form.subscribeField('user.address.street', street);
+      form.emit('change', 'user.address', { street: 'Elm St', city: 'Ogden' });
+
+      expect(street).toHaveBeenCalledWith(
+        expect.objectContaining({ value: 'Elm St' })
+      );
+    });
+  });
+
+  describe('touch event', () => {
+    it('should touch nested field', () => {
+      const form = (new FormBuilder(initialValues) as any).form;
+
+      form.emit('touch', 'user.email');
+
+      expect(form.get('user.email').isTouched).toBe(true);
+      expect(form.get('user').isTouched).toBe(true);
+    });
+  });
+
+  describe('errors', () => {
+    it('should set and clear errors on nested paths', () => {
+      const form = (new FormBuilder(initialValues) as any).form;
+
+      form.emit('errors', { 'user.address.street': 'Required' });
+      expect(form.get('user.address.street').error).toBe('Required');
+
+      form.emit('errors', {});
+      expect(form.get('user.address.street').error).toBe(null);
+    });
+
+    it('should clear nested error on change', () => {
+      const form = (new FormBuilder(initialValues) as any).form;
+
+      form.emit('errors', { 'user.email': 'Invalid' });
+      form.emit('change', 'user.email', 'jane@example.com');
+
+      expect(form.get('user.email').error).toBe(null);
+    });
+  });
+
+  describe('getSlice', () => {
+    it('should return fields keyed by path', () => {
+      const form = (new FormBuilder(initialValues) as any).form;
+
+      const slice = form.getSlice(['name', 'user.address.city']);
+
+      expect(slice).toEqual({
+        name: {
+          value: 'John',
+          error: null,
+          errors: [],
+          warnings: [],
+          isTouched: false,
+          isDirty: false
+        },
+        'user.address.city': {
+          value: 'Springfield',
+          error: null,
+          errors: [],
+          warnings: [],
+          isTouched: false,
+          isDirty: false
+        }
+      });
+    });
+  });
+});
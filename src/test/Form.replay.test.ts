@@ -0,0 +1,158 @@
+import { describe, it, expect, vi } from 'vitest';
+import { FormBuilder } from '../fieldwise';
+
+describe('Form - Replay Policies', () => {
+  it('should queue all unhandled events by default', () => {
+    const form = (new FormBuilder({ name: '' }) as any).form;
+    const handler = vi.fn();
+
+    form.emit('undo');
+    form.emit('undo');
+    form.on('undo', handler);
+
+    expect(handler).toHaveBeenCalledTimes(2);
+  });
+
+  it('should drop unhandled status events by default', () => {
+    const form = (new FormBuilder({ name: '' }) as any).form;
+    const handler = vi.fn();
+
+    form.emit('validationStart');
+    form.emit('validatingChange', true);
+    form.emit('validated', { name: '' }, null, null);
+    form.emit('submitStart');
+    form.emit('submitted', { name: '' }, null);
+    form.on('validated', handler);
+
+    expect(handler).not.toHaveBeenCalled();
+    expect(form.getPendingEvents()).toEqual([]);
+  });
+
+  it('should not hand results of a submit to a later validated handler', async () => {
+    const form = (new FormBuilder({ name: '' }) as any).form;
+    const handler = vi.fn();
+
+    form.registerValidator((values: { name: string }) =>
+      values.name ? null : { name: 'Required' }
+    );
+    await form.submit(() => {});
+    await form.submit(() => {});
+
+    form.emit('change', 'name', 'John');
+    form.emitLater('validate');
+    form.once('validated', handler);
+
+    expect(handler).not.toHaveBeenCalled();
+    await new Promise((resolve) => setTimeout(resolve, 10));
+
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(handler).toHaveBeenCalledWith({ name: 'John' }, null, null);
+  });
+
+  it('should keep status events from an explicit policy', () => {
+    const form = (
+      new FormBuilder({ name: '' }, { replay: { submitStart: 'all' } }) as any
+    ).form;
+    const handler = vi.fn();
+
+    form.emit('submitStart');
+    form.on('submitStart', handler);
+
+    expect(handler).toHaveBeenCalledTimes(1);
+  });
+
+  it('should drop unhandled events with the none policy', () => {
+    const form = (
+      new FormBuilder({ name: '' }, { replay: { validated: 'none' } }) as any
+    ).form;
+    const handler = vi.fn();
+
+    form.emit('validated', { name: '' }, null, null);
+    form.once('validated', handler);
+
+    expect(handler).not.toHaveBeenCalled();
+    expect(form.getPendingEvents()).toEqual([]);
+  });
+
+  it('should keep only the latest events with a limit', () => {
+    const form = (
+      new FormBuilder(
+        { name: '' },
+        { replay: { validatingChange: { limit: 2 } } }
+      ) as any
+    ).form;
+    const handler = vi.fn();
+
+    form.emit('validatingChange', true);
+    form.emit('validatingChange', false);
+    form.emit('validatingChange', true);
+    form.on('validatingChange', handler);
+
+    expect(handler.mock.calls).toEqual([[false], [true]]);
+  });
+
+  it('should replay the last event to every later handler', () => {
+    const form = (
+      new FormBuilder(
+        { name: '' },
+        { replay: { historyChange: 'last' } }
+      ) as any
+    ).form;
+    const first = vi.fn();
+    const second = vi.fn();
+
+    form.emit('historyChange', true, false);
+    form.emit('historyChange', true, true);
+    form.on('historyChange', first);
+    form.on('historyChange', second);
+
+    expect(first).toHaveBeenCalledTimes(1);
+    expect(first).toHaveBeenCalledWith(true, true);
+    expect(second).toHaveBeenCalledWith(true, true);
+  });
+
+  it('should keep the last event even when it was handled', () => {
+    const form = (
+      new FormBuilder(
+        { name: '' },
+        { replay: { historyChange: 'last' } }
+      ) as any
+    ).form;
+    const later = vi.fn();
+
+    form.on('historyChange', () => {});
+    form.emit('historyChange', false, true);
+    form.once('historyChange', later);
+
+    expect(later).toHaveBeenCalledWith(false, true);
+  });
+
+  it('should list pending events', () => {
+    const form = (new FormBuilder({ name: '' }) as any).form;
+
+    form.emit('undo');
+    form.emit('redo');
+
+    expect(form.getPendingEvents()).toEqual([
+      { event: 'undo', args: [] },
+      { event: 'redo', args: [] }
+    ]);
+  });
+
+  it('should clear pending events of one or all events', () => {
+    const form = (new FormBuilder({ name: '' }) as any).form;
+    const handler = vi.fn();
+
+    form.emit('undo');
+    form.emit('redo');
+    form.clearPendingEvents('undo');
+
+    expect(form.getPendingEvents()).toEqual([{ event: 'redo', args: [] }]);
+
+    form.clearPendingEvents();
+    form.on('redo', handler);
+
+    expect(form.getPendingEvents()).toEqual([]);
+    expect(handler).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,66 @@
+import { describe, it, expect, vi } from 'vitest';
+import { FormBuilder } from '../fieldwise';
+import { ROOT_KEY } from '../Form';
+
+describe('Form - Root Errors', () => {
+  it('should set and clear root errors with the errors event', () => {
+    const form = (new FormBuilder({ name: '' }) as any).form;
+
+    form.emit('errors', { [ROOT_KEY]: 'Server unavailable', name: 'Required' });
+    expect(form.getRootErrors()).toEqual(['Server unavailable']);
+    expect(form.get('name').error).toBe('Required');
+
+    form.emit('errors', {});
+    expect(form.getRootErrors()).toEqual([]);
+  });
+
+  it('should notify root subscribers', () => {
+    const form = (new FormBuilder({ name: '' }) as any).form;
+    const subscriber = vi.fn();
+
+    form.subscribeField(ROOT_KEY, subscriber);
+    form.setError(ROOT_KEY, 'Server unavailable');
+
+    expect(subscriber).toHaveBeenCalledWith(
+      expect.objectContaining({ errors: ['Server unavailable'] })
+    );
+  });
+
+  it('should block submit on root errors from validators', async () => {
+    const form = (new FormBuilder({ email: '', phone: '' }) as any).form;
+    const onValid = vi.fn();
+    const onInvalid = vi.fn();
+
+    form.registerValidator((values: any) =>
+      values.email || values.phone
+        ? null
+        : { [ROOT_KEY]: 'Provide an email or a phone' }
+    );
+    await form.submit(onValid, onInvalid);
+
+    expect(onValid).not.toHaveBeenCalled();
+    expect(onInvalid).toHaveBeenCalledWith(
+      { [ROOT_KEY]: 'Provide an email or a phone' },
+      { email: '', phone: '' }
+    );
+    expect(form.getRootErrors()).toEqual(['Provide an email or a phone']);
+  });
+
+  it('should keep root errors on field changes', () => {
+    const form = (new FormBuilder({ name: '' }) as any).form;
+
+    form.emit('errors', { [ROOT_KEY]: 'Server unavailable' });
+    form.emit('change', 'name', 'John');
+
+    expect(form.getRootErrors()).toEqual(['Server unavailable']);
+  });
+
+  it('should clear root errors on reset', () => {
+    const form = (new FormBuilder({ name: '' }) as any).form;
+
+    form.emit('errors', { [ROOT_KEY]: 'Server unavailable' });
+    form.emit('reset');
+
+    expect(form.getRootErrors()).toEqual([]);
+  });
+});
@@ -0,0 +1,120 @@
+import { describe, it, expect, vi } from 'vitest';
+import { FormBuilder } from '../fieldwise';
+import { SNAPSHOT_VERSION } from '../Form';
+
+const roundTrip = (value: unknown) => JSON.parse(JSON.stringify(value));
+
+describe('Form - Snapshots', () => {
+  it('should capture values, messages, touched and submit state', async () => {
+    const form = (new FormBuilder({ name: '', email: '' }) as any).form;
+
+    form.registerValidator((values: any) => ({
+      errors: values.name ? null : { name: ['Required', 'Too short'] },
+      warnings: { email: 'Unusual domain' }
+    }));
+    form.emit('change', 'email', 'john@mail.xyz');
+    form.emit('touch', 'email');
+    await form.submit(vi.fn(), vi.fn());
+
+    expect(form.toSnapshot()).toEqual({
+      version: SNAPSHOT_VERSION,
+      values: { name: '', email: 'john@mail.xyz' },
+      initialValues: { name: '', email: '' },
+      errors: { name: ['Required', 'Too short'] },
+      warnings: { email: 'Unusual domain' },
+      touched: ['email'],
+      removed: [],
+      isSubmitted: true,
+      submitCount: 1
+    });
+  });
+
+  it('should restore a snapshot into another form', () => {
+    const source = (new FormBuilder({ name: '', email: '' }) as any).form;
+    source.emit('change', 'name', 'John');
+    source.emit('touch', 'name');
+    source.emit('errors', { email: 'Required' });
+
+    const target = (new FormBuilder({ name: '', email: '' }) as any).form;
+    const applied = target.fromSnapshot(roundTrip(source.toSnapshot()));
+
+    expect(applied).toBe(true);
+    expect(target.get('name')).toMatchObject({
+      value: 'John',
+      isTouched: true,
+      isDirty: true
+    });
+    expect(target.get('email').error).toBe('Required');
+    expect(target.toSnapshot()).toEqual(source.toSnapshot());
+  });
+
+  it('should replace state of the form', () => {
+    const form = (new FormBuilder({ name: '', email: '' }) as any).form;
+    form.emit('touch', 'email');
+    form.emit('errors', { email: 'Required' });
+
+    form.fromSnapshot({
+      version: SNAPSHOT_VERSION,
+      values: { name: 'John', email: '' },
+      initialValues: { name: 'John', email: '' },
+      errors: {},
+      warnings: {},
+      touched: [],
+      removed: [],
+      isSubmitted: false,
+      submitCount: 0
+    });
+
+    expect(form.get('email')).toMatchObject({
+      error: null,
+      isTouched: false
+    });
+    expect(form.isDirty()).toBe(false);
+  });
+
+  it('should notify subscribers of restored fields', () => {
+    const form = (new FormBuilder({ name: '' }) as any).form;
+    const subscriber = vi.fn();
+    form.subscribeField('name', subscriber);
+
+    form.fromSnapshot({
+      ...form.toSnapshot(),
+      values: { name: 'John' }
+    });
+
+    expect(subscriber).toHaveBeenCalledWith(
+      expect.objectContaining({ value: 'John' })
+    );
+  });
+
+  it('should keep removed fields out of validation', async () => {
+    const source = (new FormBuilder({ name: '', company: { vat: '' } }) as any)
+      .form;
+    source.emit('removeField', 'company');
+
+    const target = (new FormBuilder({ name: '', company: { vat: '' } }) as any)
+      .form;
+    const validator = vi.fn(() => 'Required');
+    target.registerFieldValidator('company.vat', validator);
+    target.fromSnapshot(roundTrip(source.toSnapshot()));
+
+    const onValid = vi.fn();
+    await target.submit(onValid);
+
+    expect(validator).not.toHaveBeenCalled();
+    expect(onValid).toHaveBeenCalledWith({ name: '' });
+  });
+
+  it('should ignore snapshots of another version', () => {
+    const form = (new FormBuilder({ name: '' }) as any).form;
+
+    const applied = form.fromSnapshot({
+      ...form.toSnapshot(),
+      version: 0,
+      values: { name: 'John' }
+    });
+
+    expect(applied).toBe(false);
+    expect(form.getValue('name')).toBe('');
+  });
+});
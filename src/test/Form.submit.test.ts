@@ -0,0 +1,124 @@
+import { describe, it, expect, vi } from 'vitest';
+import { FormBuilder } from '../fieldwise';
+
+const createForm = (initialValues: Record<string, unknown> = { name: '' }) => {
+  const form = (new FormBuilder(initialValues) as any).form;
+  form.registerValidator((values: any) =>
+    values.name ? null : { name: 'Required' }
+  );
+  return form;
+};
+
+describe('Form - Submit', () => {
+  it('should call onValid with values when validation passes', async () => {
+    const form = createForm({ name: 'John' });
+    const onValid = vi.fn();
+    const onInvalid = vi.fn();
+
+    await form.submit(onValid, onInvalid);
+
+    expect(onValid).toHaveBeenCalledWith({ name: 'John' });
+    expect(onInvalid).not.toHaveBeenCalled();
+  });
+
+  it('should call onInvalid and set field errors when validation fails', async () => {
+    const form = createForm();
+    const onValid = vi.fn();
+    const onInvalid = vi.fn();
+
+    await form.submit(onValid, onInvalid);
+
+    expect(onValid).not.toHaveBeenCalled();
+    expect(onInvalid).toHaveBeenCalledWith({ name: 'Required' }, { name: '' });
+    expect(form.get('name').error).toBe('Required');
+  });
+
+  it('should wait for async validators', async () => {
+    const form = createForm({ name: 'John' });
+    form.registerValidator(async () => {
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      return { name: 'Taken' };
+    });
+    const onInvalid = vi.fn();
+
+    await form.submit(vi.fn(), onInvalid);
+
+    expect(onInvalid).toHaveBeenCalledWith({ name: 'Taken' }, { name: 'John' });
+  });
+
+  it('should track submit state across async submit handler', async () => {
+    const form = createForm({ name: 'John' });
+    let resolveSubmit: () => void = () => {};
+
+    expect(form.isSubmitting).toBe(false);
+    expect(form.isSubmitted).toBe(false);
+    expect(form.submitCount).toBe(0);
+
+    const submission = form.submit(
+      () => new Promise<void>((resolve) => (resolveSubmit = resolve))
+    );
+    await new Promise((resolve) => setTimeout(resolve, 0));
+
+    expect(form.isSubmitting).toBe(true);
+    expect(form.isSubmitted).toBe(false);
+    expect(form.submitCount).toBe(1);
+
+    resolveSubmit();
+    await submission;
+
+    expect(form.isSubmitting).toBe(false);
+    expect(form.isSubmitted).toBe(true);
+  });
+
+  it('should block double submits', async () => {
+    const form = createForm({ name: 'John' });
+    const onValid = vi.fn(
+      () => new Promise<void>((resolve) => setTimeout(resolve, 5))
+    );
+
+    await Promise.all([form.submit(onValid), form.submit(onValid)]);
+
+    expect(onValid).toHaveBeenCalledTimes(1);
+    expect(form.submitCount).toBe(1);
+  });
+
+  it('should store error thrown by submit handler', async () => {
+    const form = createForm({ name: 'John' });
+    const error = new Error('Network error');
+
+    await form.submit(() => Promise.reject(error));
+
+    expect(form.submitError).toBe(error);
+    expect(form.isSubmitting).toBe(false);
+
+    await form.submit(vi.fn());
+
+    expect(form.submitError).toBe(null);
+    expect(form.submitCount).toBe(2);
+  });
+
+  it('should emit submitStart and submitted events', async () => {
+    const form = createForm();
+    const submitStart = vi.fn();
+    const submitted = vi.fn();
+
+    form.on('submitStart', submitStart);
+    form.on('submitted', submitted);
+    await form.submit(vi.fn());
+
+    expect(submitStart).toHaveBeenCalledTimes(1);
+    expect(submitted).toHaveBeenCalledWith({ name: '' }, { name: 'Required' });
+  });
+
+  it('should submit on submit event', async () => {
+    const form = createForm({ name: 'John' });
+    const submitted = vi.fn();
+
+    form.on('submitted', submitted);
+    form.emit('submit');
+    await new Promise((resolve) => setTimeout(resolve, 0));
+
+    expect(submitted).toHaveBeenCalledWith({ name: 'John' }, null);
+    expect(form.submitCount).toBe(1);
+  });
+});
@@ -0,0 +1,114 @@
+import { describe, it, expect, vi } from 'vitest';
+import { FormBuilder } from '../fieldwise';
+
+describe('Form - Wildcard Listeners and Subscriptions', () => {
+  describe('wildcard listeners', () => {
+    it('should receive every event with its name', () => {
+      const form = (new FormBuilder({ name: '' }) as any).form;
+      const listener = vi.fn();
+
+      form.on('*', listener);
+      form.emit('change', 'name', 'John');
+      form.emit('touch', 'name');
+      form.emit('validationStart');
+
+      expect(listener).toHaveBeenCalledWith('change', 'name', 'John');
+      expect(listener).toHaveBeenCalledWith('touch', 'name');
+      expect(listener).toHaveBeenCalledWith('validationStart');
+    });
+
+    it('should run after the handlers of the event', () => {
+      const form = (new FormBuilder({ name: '' }) as any).form;
+      let seen: unknown;
+
+      form.on('*', () => {
+        seen = form.getValue('name');
+      });
+      form.emit('change', 'name', 'John');
+
+      expect(seen).toBe('John');
+    });
+
+    it('should not keep unhandled events from being queued', () => {
+      const form = (new FormBuilder({ name: '' }) as any).form;
+      const handler = vi.fn();
+
+      form.on('*', () => {});
+      form.emit('undo');
+      form.on('undo', handler);
+
+      expect(handler).toHaveBeenCalledTimes(1);
+    });
+
+    it('should stop receiving events after unsubscribing', () => {
+      const form = (new FormBuilder({ name: '' }) as any).form;
+      const listener = vi.fn();
+
+      const unsubscribe = form.on('*', listener);
+      unsubscribe();
+      form.emit('change', 'name', 'John');
+
+      expect(listener).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('subscribe', () => {
+    it('should report changed keys with their ancestors', () => {
+      const form = (new FormBuilder({ user: { name: '', email: '' } }) as any)
+        .form;
+      const listener = vi.fn();
+
+      form.subscribe(listener);
+      form.emit('change', 'user.name', 'John');
+
+      expect(listener).toHaveBeenCalledWith(['user.name', 'user']);
+    });
+
+    it('should be notified of touch and error changes', () => {
+      const form = (new FormBuilder({ name: '' }) as any).form;
+      const listener = vi.fn();
+
+      form.subscribe(listener);
+      form.emit('touch', 'name');
+      form.emit('errors', { name: 'Required' });
+
+      expect(listener).toHaveBeenCalledTimes(2);
+      expect(listener).toHaveBeenNthCalledWith(2, ['name']);
+    });
+
+    it('should be notified once per batch', () => {
+      const form = (new FormBuilder({ name: '', city: '' }) as any).form;
+      const listener = vi.fn();
+
+      form.subscribe(listener);
+      form.batch(() => {
+        form.emit('change', 'name', 'John');
+        form.emit('change', 'city', 'Oslo');
+      });
+
+      expect(listener).toHaveBeenCalledTimes(1);
+      expect(listener).toHaveBeenCalledWith(['name', 'city']);
+    });
+
+    it('should report all fields on reset', () => {
+      const form = (new FormBuilder({ name: '', city: '' }) as any).form;
+      const listener = vi.fn();
+
+      form.subscribe(listener);
+      form.emit('reset');
+
+      expect(listener).toHaveBeenCalledWith(['name', 'city']);
+    });
+
+    it('should stop notifying after unsubscribing', () => {
+      const form = (new FormBuilder({ name: '' }) as any).form;
+      const listener = vi.fn();
+
+      const unsubscribe = form.subscribe(listener);
+      unsubscribe();
+      form.emit('change', 'name', 'John');
+
+      expect(listener).not.toHaveBeenCalled();
+    });
+  });
+});
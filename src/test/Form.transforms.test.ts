@@ -0,0 +1,112 @@
+import { describe, it, expect, vi } from 'vitest';
+import { FormBuilder } from '../fieldwise';
+import { numberTransform } from '../transforms';
+
+const createForm = (options = {}) => {
+  const form = (
+    new FormBuilder({ price: 1000 as number | null }, options) as any
+  ).form;
+  form.registerTransform('price', numberTransform({ locale: 'en-US' }));
+  return form;
+};
+
+describe('Form - Transforms', () => {
+  it('should format the value for display', () => {
+    const form = createForm();
+
+    expect(form.getInput('price')).toBe('1,000');
+    expect(form.getValue('price')).toBe(1000);
+  });
+
+  it('should store parsed input as the value', () => {
+    const form = createForm();
+    const change = vi.fn();
+
+    form.on('change', change);
+    form.emit('input', 'price', '2,500');
+
+    expect(form.getValue('price')).toBe(2500);
+    expect(form.getInput('price')).toBe('2,500');
+    expect(change).toHaveBeenCalledWith('price', 2500);
+  });
+
+  it('should set a field error for input that fails to parse', () => {
+    const form = createForm();
+
+    form.emit('input', 'price', '12abc');
+
+    expect(form.getValue('price')).toBe(1000);
+    expect(form.getInput('price')).toBe('12abc');
+    expect(form.get('price')).toMatchObject({
+      error: 'Must be a number',
+      isTouched: true
+    });
+  });
+
+  it('should clear the parse error once input parses', () => {
+    const form = createForm({ mode: 'onChange' });
+
+    form.emit('input', 'price', '12abc');
+    form.emit('input', 'price', '12');
+
+    expect(form.getValue('price')).toBe(12);
+    expect(form.get('price').error).toBe(null);
+  });
+
+  it('should keep input that differs from its formatted form until touched', () => {
+    const form = createForm();
+
+    form.emit('input', 'price', '1234.');
+    expect(form.getValue('price')).toBe(1234);
+    expect(form.getInput('price')).toBe('1234.');
+
+    form.emit('touch', 'price');
+    expect(form.getInput('price')).toBe('1,234');
+  });
+
+  it('should show the formatted value after a change from elsewhere', () => {
+    const form = createForm();
+
+    form.emit('input', 'price', '12abc');
+    form.emit('change', 'price', 50);
+
+    expect(form.getInput('price')).toBe('50');
+    expect(form.get('price').error).toBe(null);
+  });
+
+  it('should keep parse errors through validation', async () => {
+    const form = createForm();
+    const onValid = vi.fn();
+    const onInvalid = vi.fn();
+
+    form.registerValidator(() => null);
+    form.emit('input', 'price', '12abc');
+    await form.submit(onValid, onInvalid);
+
+    expect(onValid).not.toHaveBeenCalled();
+    expect(onInvalid).toHaveBeenCalledWith(
+      { price: 'Must be a number' },
+      { price: 1000 }
+    );
+    expect(form.get('price').error).toBe('Must be a number');
+  });
+
+  it('should store input of fields without a transform as is', () => {
+    const form = (new FormBuilder({ name: '' }) as any).form;
+
+    form.emit('input', 'name', 'John');
+
+    expect(form.getValue('name')).toBe('John');
+    expect(form.getInput('name')).toBe('John');
+  });
+
+  it('should drop pending input on reset', () => {
+    const form = createForm();
+
+    form.emit('input', 'price', '12abc');
+    form.emit('reset');
+
+    expect(form.getInput('price')).toBe('1,000');
+    expect(form.get('price').error).toBe(null);
+  });
+});
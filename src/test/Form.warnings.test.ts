@@ -0,0 +1,133 @@
+import { describe, it, expect, vi } from 'vitest';
+import { FormBuilder } from '../fieldwise';
+
+describe('Form - Warnings and Messages', () => {
+  describe('multiple messages', () => {
+    it('should keep all messages of a field', () => {
+      const form = (new FormBuilder({ password: '' }) as any).form;
+
+      form.emit('errors', { password: ['Too short', 'Needs a digit'] });
+
+      expect(form.get('password')).toMatchObject({
+        error: 'Too short',
+        errors: ['Too short', 'Needs a digit']
+      });
+    });
+
+    it('should expose a single message as a one-item array', () => {
+      const form = (new FormBuilder({ name: '' }) as any).form;
+
+      form.emit('errors', { name: 'Required' });
+
+      expect(form.get('name').errors).toEqual(['Required']);
+    });
+
+    it('should not notify subscribers when messages are unchanged', () => {
+      const form = (new FormBuilder({ name: '' }) as any).form;
+      const subscriber = vi.fn();
+
+      form.emit('errors', { name: ['Required'] });
+      form.subscribeField('name', subscriber);
+      form.emit('errors', { name: 'Required' });
+
+      expect(subscriber).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('warnings event', () => {
+    it('should set and clear field warnings', () => {
+      const form = (new FormBuilder({ email: '' }) as any).form;
+
+      form.emit('warnings', { email: 'Unusual domain' });
+      expect(form.get('email')).toMatchObject({
+        error: null,
+        warnings: ['Unusual domain']
+      });
+
+      form.emit('warnings', {});
+      expect(form.get('email').warnings).toEqual([]);
+    });
+
+    it('should clear warnings on change before submit', () => {
+      const form = (new FormBuilder({ email: '' }) as any).form;
+
+      form.emit('warnings', { email: 'Unusual domain' });
+      form.emit('change', 'email', 'john@example.com');
+
+      expect(form.get('email').warnings).toEqual([]);
+    });
+  });
+
+  describe('validators', () => {
+    it('should report warnings separately in validated', async () => {
+      const form = (
+        new FormBuilder({ name: '', email: 'john@mail.xyz' }) as any
+      ).form;
+      const validated = vi.fn();
+
+      form.registerValidator((values: any) => ({
+        errors: values.name ? null : { name: 'Required' },
+        warnings: { email: 'Unusual domain' }
+      }));
+      form.on('validated', validated);
+      form.emit('validate');
+      await Promise.resolve();
+
+      expect(validated).toHaveBeenCalledWith(
+        { name: '', email: 'john@mail.xyz' },
+        { name: 'Required' },
+        { email: 'Unusual domain' }
+      );
+    });
+
+    it('should treat a field named errors as a field error', async () => {
+      const form = (new FormBuilder({ errors: '' }) as any).form;
+      const validated = vi.fn();
+
+      form.registerValidator(() => ({ errors: 'Required' }));
+      form.on('validated', validated);
+      form.emit('validate');
+      await Promise.resolve();
+
+      expect(validated).toHaveBeenCalledWith(
+        { errors: '' },
+        { errors: 'Required' },
+        null
+      );
+    });
+
+    it('should submit a form that only has warnings', async () => {
+      const form = (new FormBuilder({ email: 'john@mail.xyz' }) as any).form;
+      const onValid = vi.fn();
+      const onInvalid = vi.fn();
+
+      form.registerValidator(() => ({
+        warnings: { email: 'Unusual domain' }
+      }));
+      await form.submit(onValid, onInvalid);
+
+      expect(onValid).toHaveBeenCalledWith({ email: 'john@mail.xyz' });
+      expect(onInvalid).not.toHaveBeenCalled();
+      expect(form.get('email').warnings).toEqual(['Unusual domain']);
+    });
+
+    it('should collect warnings of all field validators', () => {
+      const form = (new FormBuilder({ email: '' }, { mode: 'onChange' }) as any)
+        .form;
+
+      form.registerFieldValidator('email', () => ({
+        warnings: 'Unusual domain'
+      }));
+      form.registerFieldValidator('email', () => ({
+        errors: ['Too long', 'Invalid'],
+        warnings: 'Disposable address'
+      }));
+      form.emit('change', 'email', 'john@mail.xyz');
+
+      expect(form.get('email')).toMatchObject({
+        errors: ['Too long', 'Invalid'],
+        warnings: ['Unusual domain', 'Disposable address']
+      });
+    });
+  });
+});
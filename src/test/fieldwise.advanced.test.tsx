@@ -1,6 +1,9 @@
-import { describe, it, expect } from 'vitest';
+import { describe, it, expect, vi } from 'vitest';
 import { renderHook, act } from '@testing-library/react';
+import { createElement } from 'react';
+import { renderToString } from 'react-dom/server';
 import { fieldwise, getValues } from '../fieldwise';
+import { numberTransform } from '../transforms';
 
 describe('fieldwise - Advanced Features', () => {
   describe('isTouched computed value', () => {
@@ -38,6 +41,31 @@ describe('fieldwise - Advanced Features', () => {
     });
   });
 
+  describe('isDirty computed value', () => {
+    it('should reflect dirty fields in slice', async () => {
+      const { useSlice } = fieldwise({ name: '', email: '' }).hooks();
+      const { result } = renderHook(() => useSlice(['name']));
+
+      expect(result.current.isDirty).toBe(false);
+      expect(result.current.fields.name.isDirty).toBe(false);
+
+      await act(async () => {
+        result.current.emit('change', 'name', 'John');
+        await new Promise((resolve) => setTimeout(resolve, 0));
+      });
+
+      expect(result.current.isDirty).toBe(true);
+      expect(result.current.fields.name.isDirty).toBe(true);
+
+      await act(async () => {
+        result.current.emit('change', 'name', '');
+        await new Promise((resolve) => setTimeout(resolve, 0));
+      });
+
+      expect(result.current.isDirty).toBe(false);
+    });
+  });
+
   describe('emit.later', () => {
     it('should expose emitLater via emit.later', async () => {
       const { useForm } = fieldwise({ name: '' }).hooks();
@@ -104,6 +132,332 @@ describe('fieldwise - Advanced Features', () => {
     });
   });
 
+  describe('handleSubmit', () => {
+    it('should expose submit state reactively', async () => {
+      const { useForm } = fieldwise({ name: 'John' }).hooks();
+      const { result } = renderHook(() => useForm());
+      const submitted: unknown[] = [];
+      const preventDefault = vi.fn();
+
+      expect(result.current.isSubmitting).toBe(false);
+      expect(result.current.submitCount).toBe(0);
+
+      let submission: Promise<void> = Promise.resolve();
+      await act(async () => {
+        submission = result.current.handleSubmit(async (values) => {
+          await new Promise((resolve) => setTimeout(resolve, 10));
+          submitted.push(values);
+        })({ preventDefault });
+        await new Promise((resolve) => setTimeout(resolve, 0));
+      });
+
+      expect(preventDefault).toHaveBeenCalled();
+      expect(result.current.isSubmitting).toBe(true);
+      expect(result.current.submitCount).toBe(1);
+
+      await act(async () => {
+        await submission;
+      });
+
+      expect(submitted).toEqual([{ name: 'John' }]);
+      expect(result.current.isSubmitting).toBe(false);
+      expect(result.current.isSubmitted).toBe(true);
+      expect(result.current.submitError).toBe(null);
+    });
+  });
+
+  describe('root errors', () => {
+    it('should expose root errors reactively', async () => {
+      const { useForm } = fieldwise({ name: 'John' }).hooks();
+      const { result } = renderHook(() => useForm());
+
+      expect(result.current.rootError).toBe(null);
+      expect(result.current.rootErrors).toEqual([]);
+
+      await act(async () => {
+        result.current.emit('errors', { $root: ['Server error', 'Retry'] });
+      });
+
+      expect(result.current.rootError).toBe('Server error');
+      expect(result.current.rootErrors).toEqual(['Server error', 'Retry']);
+
+      await act(async () => {
+        result.current.emit('errors', {});
+      });
+
+      expect(result.current.rootError).toBe(null);
+    });
+  });
+
+  describe('runtime fields', () => {
+    it('should pick up added and removed fields in useForm', async () => {
+      const { useForm } = fieldwise<{ name: string; nickname?: string }>({
+        name: 'John'
+      }).hooks();
+      const { result } = renderHook(() => useForm());
+
+      await act(async () => {
+        result.current.emit('addField', 'nickname', 'Johnny');
+      });
+
+      expect(result.current.fields.nickname?.value).toBe('Johnny');
+
+      await act(async () => {
+        result.current.emit('removeField', 'nickname');
+      });
+
+      expect(Object.keys(result.current.fields)).toEqual(['name']);
+    });
+  });
+
+  describe('computed fields', () => {
+    it('should re-render slices of computed fields', async () => {
+      const builder = fieldwise({ price: 10, qty: 2, total: 0 }).use((form) =>
+        form.registerComputed(
+          'total',
+          ['price', 'qty'],
+          (values) => values.price * values.qty
+        )
+      );
+      const { useSlice } = builder.hooks();
+      const { result } = renderHook(() => useSlice(['total']));
+
+      expect(result.current.fields.total.value).toBe(20);
+
+      await act(async () => {
+        result.current.emit('change', 'qty', 3);
+      });
+
+      expect(result.current.fields.total.value).toBe(30);
+    });
+  });
+
+  describe('snapshots', () => {
+    it('should render hydrated state on the first render', () => {
+      const server = fieldwise({ name: '', email: '' });
+      const serverForm = (server as any).form;
+      serverForm.emit('change', 'email', 'john@');
+      serverForm.emit('touch', 'email');
+      serverForm.emit('errors', { email: 'Invalid email' });
+      const snapshot = JSON.parse(JSON.stringify(serverForm.toSnapshot()));
+
+      const { useForm } = fieldwise(
+        { name: '', email: '' },
+        { snapshot }
+      ).hooks();
+      const { result } = renderHook(() => useForm());
+
+      expect(result.current.fields.email).toMatchObject({
+        value: 'john@',
+        error: 'Invalid email',
+        isTouched: true,
+        isDirty: true
+      });
+      expect(result.current.isTouched).toBe(true);
+    });
+  });
+
+  describe('external store', () => {
+    it('should render form state on the server', () => {
+      const { useForm } = fieldwise({ name: 'John' }).hooks();
+      const Name = () => {
+        const { fields } = useForm();
+        return createElement('span', null, fields.name.value);
+      };
+
+      expect(renderToString(createElement(Name))).toBe('<span>John</span>');
+    });
+
+    it('should keep the same state while nothing changes', () => {
+      const { useSlice } = fieldwise({ name: '', email: '' }).hooks();
+      const { result, rerender } = renderHook(() => useSlice(['name']));
+
+      const { fields } = result.current;
+      rerender();
+
+      expect(result.current.fields).toBe(fields);
+    });
+
+    it('should re-render several slices once for changes in one tick', async () => {
+      const { useSlice } = fieldwise({ name: '', email: '' }).hooks();
+
+      let renderCount = 0;
+      const { result } = renderHook(() => {
+        renderCount++;
+        return [useSlice(['name']), useSlice(['email'])] as const;
+      });
+      const initialRenderCount = renderCount;
+
+      await act(async () => {
+        result.current[0].emit('change', 'name', 'John');
+        result.current[1].emit('change', 'email', 'john@example.com');
+        await new Promise((resolve) => setTimeout(resolve, 0));
+      });
+
+      expect(renderCount).toBe(initialRenderCount + 1);
+      expect(result.current[0].fields.name.value).toBe('John');
+      expect(result.current[1].fields.email.value).toBe('john@example.com');
+    });
+
+    it('should derive isTouched from the current keys', async () => {
+      const { useSlice } = fieldwise({ name: '', email: '' }).hooks();
+      const { result, rerender } = renderHook(({ keys }) => useSlice(keys), {
+        initialProps: { keys: ['name'] as ('name' | 'email')[] }
+      });
+
+      await act(async () => {
+        result.current.emit('touch', 'email');
+        await new Promise((resolve) => setTimeout(resolve, 0));
+      });
+      expect(result.current.isTouched).toBe(false);
+
+      rerender({ keys: ['name', 'email'] });
+      expect(result.current.isTouched).toBe(true);
+    });
+
+    it('should update a nested field when its parent is replaced', async () => {
+      const { useSlice } = fieldwise({
+        user: { name: '' }
+      }).hooks();
+      const { result } = renderHook(() => useSlice(['user.name']));
+
+      await act(async () => {
+        result.current.emit('change', 'user', { name: 'John' });
+        await new Promise((resolve) => setTimeout(resolve, 0));
+      });
+
+      expect(result.current.fields['user.name'].value).toBe('John');
+    });
+  });
+
+  describe('transforms', () => {
+    it('should pass formatted values to inputs and store parsed ones', async () => {
+      const builder = fieldwise({ amount: 1000 as number | null });
+      builder.use((form) =>
+        form.registerTransform('amount', numberTransform({ locale: 'en-US' }))
+      );
+      const { useForm } = builder.hooks();
+      const { result } = renderHook(() => useForm());
+
+      expect(result.current.i<'amount', string>('amount').value).toBe('1,000');
+
+      await act(async () => {
+        result.current.i<'amount', string>('amount').onChange('2,000');
+        await new Promise((resolve) => setTimeout(resolve, 0));
+      });
+
+      expect(result.current.fields.amount.value).toBe(2000);
+
+      await act(async () => {
+        result.current.i<'amount', string>('amount').onChange('2,000x');
+        await new Promise((resolve) => setTimeout(resolve, 0));
+      });
+
+      expect(result.current.i('amount').value).toBe('2,000x');
+      expect(result.current.fields.amount.error).toBe('Must be a number');
+    });
+
+    it('should type inputs of transforms registered on the builder', async () => {
+      const { useForm } = fieldwise({ amount: 1000 as number | null, note: '' })
+        .transform('amount', numberTransform({ locale: 'en-US' }))
+        .hooks();
+      const { result } = renderHook(() => useForm());
+
+      const input: string = result.current.i('amount').value;
+      const note: string = result.current.i('note').value;
+      expect(input).toBe('1,000');
+      expect(note).toBe('');
+
+      await act(async () => {
+        result.current.i('amount').onChange('2,000');
+        await new Promise((resolve) => setTimeout(resolve, 0));
+      });
+
+      const amount: number | null = result.current.fields.amount.value;
+      expect(amount).toBe(2000);
+    });
+  });
+
+  describe('accessibility props', () => {
+    it('should link inputs, labels and errors by id', () => {
+      const { useForm } = fieldwise({ name: '' }, { id: 'signup' }).hooks();
+      const { result } = renderHook(() => useForm());
+
+      expect(result.current.i('name').id).toBe('signup-name');
+      expect(result.current.labelProps('name')).toEqual({
+        id: 'signup-name-label',
+        htmlFor: 'signup-name'
+      });
+      expect(result.current.errorProps('name')).toEqual({
+        id: 'signup-name-error',
+        role: 'alert'
+      });
+    });
+
+    it('should share ids between hooks of different components', () => {
+      const { useForm, useSlice } = fieldwise({ name: '', email: '' }).hooks();
+      const Input = () => {
+        const { i } = useSlice(['email']);
+        return createElement('input', { ...i('email'), onChange: undefined });
+      };
+      const Form = () => {
+        const { labelProps } = useForm();
+        return createElement(
+          'div',
+          null,
+          createElement('label', labelProps('email')),
+          createElement(Input)
+        );
+      };
+
+      const html = renderToString(createElement(Form));
+      const htmlFor = html.match(/for="([^"]+)"/)![1];
+      const id = html.match(/<input[^>]* id="([^"]+)"/)![1];
+
+      expect(htmlFor).toMatch(/-email$/);
+      expect(id).toBe(htmlFor);
+    });
+
+    it('should give each form its own ids', () => {
+      const first = renderHook(() => fieldwise({ name: '' }).hooks().useForm());
+      const second = renderHook(() =>
+        fieldwise({ name: '' }).hooks().useForm()
+      );
+
+      expect(first.result.current.i('name').id).not.toBe(
+        second.result.current.i('name').id
+      );
+    });
+
+    it('should describe invalid inputs with their error', async () => {
+      const builder = fieldwise({ email: '' }, { mode: 'onBlur' });
+      builder.use((form) =>
+        form.registerFieldValidator(
+          'email',
+          (value) => (value ? null : 'Email required'),
+          { required: true }
+        )
+      );
+      const { useForm } = builder.hooks();
+      const { result } = renderHook(() => useForm());
+
+      expect(result.current.i('email')['aria-invalid']).toBe(false);
+      expect(result.current.i('email')['aria-describedby']).toBeUndefined();
+      expect(result.current.i('email')['aria-required']).toBe(true);
+
+      await act(async () => {
+        result.current.i('email').onBlur();
+        await new Promise((resolve) => setTimeout(resolve, 10));
+      });
+
+      expect(result.current.fields.email.isTouched).toBe(true);
+      expect(result.current.i('email')['aria-invalid']).toBe(true);
+      expect(result.current.i('email')['aria-describedby']).toBe(
+        result.current.errorProps('email').id
+      );
+    });
+  });
+
   describe('getValues utility', () => {
     it('should extract values from fields object', () => {
       const fields = {
@@ -225,6 +579,86 @@ describe('fieldwise - Advanced Features', () => {
     });
   });
 
+  describe('nested paths', () => {
+    it('should subscribe slice to nested paths', async () => {
+      const { useSlice } = fieldwise({
+        user: { name: '', address: { city: '' } }
+      }).hooks();
+      const { result } = renderHook(() =>
+        useSlice(['user.name', 'user.address.city'])
+      );
+
+      await act(async () => {
+        result.current.emit('change', 'user.address.city', 'Paris');
+        await new Promise((resolve) => setTimeout(resolve, 0));
+      });
+
+      expect(result.current.fields['user.address.city'].value).toBe('Paris');
+      expect(result.current.fields['user.name'].value).toBe('');
+    });
+
+    it('should bind inputs to nested paths', async () => {
+      const { useForm } = fieldwise({ user: { name: '' } }).hooks();
+      const { result } = renderHook(() => useForm());
+
+      expect(result.current.i('user.name').name).toBe('user.name');
+
+      await act(async () => {
+        result.current.i('user.name').onChange('John');
+        await new Promise((resolve) => setTimeout(resolve, 0));
+      });
+
+      expect(result.current.fields.user.value).toEqual({ name: 'John' });
+      expect(result.current.i('user.name').value).toBe('John');
+    });
+  });
+
+  describe('useFieldArray hook', () => {
+    it('should expose items with stable keys', async () => {
+      const { useFieldArray } = fieldwise({
+        phones: [{ number: '1' }, { number: '2' }]
+      }).hooks();
+      const { result } = renderHook(() => useFieldArray('phones'));
+      const [first, second] = result.current.items;
+
+      await act(async () => {
+        result.current.swap(0, 1);
+        await new Promise((resolve) => setTimeout(resolve, 0));
+      });
+
+      expect(result.current.items.map((item) => item.key)).toEqual([
+        second.key,
+        first.key
+      ]);
+      expect(result.current.items[0].value).toEqual({ number: '2' });
+    });
+
+    it('should update items through helpers', async () => {
+      const { useFieldArray } = fieldwise({ tags: ['a'] }).hooks();
+      const { result } = renderHook(() => useFieldArray('tags'));
+
+      await act(async () => {
+        result.current.append('b');
+        result.current.insert(0, 'c');
+        result.current.remove(1);
+        result.current.move(0, 1);
+        await new Promise((resolve) => setTimeout(resolve, 0));
+      });
+
+      expect(result.current.items.map((item) => item.value)).toEqual([
+        'b',
+        'c'
+      ]);
+
+      await act(async () => {
+        result.current.replace(['x']);
+        await new Promise((resolve) => setTimeout(resolve, 0));
+      });
+
+      expect(result.current.items.map((item) => item.value)).toEqual(['x']);
+    });
+  });
+
   describe('cleanup', () => {
     it('should cleanup subscriptions on unmount', () => {
       const { useForm } = fieldwise({ name: '' }).hooks();
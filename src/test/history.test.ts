@@ -0,0 +1,175 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { renderHook, act } from '@testing-library/react';
+import { FormBuilder, fieldwise } from '../fieldwise';
+import { history } from '../history';
+
+const createForm = (options?: Parameters<typeof history>[0]) => {
+  const builder = new FormBuilder({ name: 'John', email: '' });
+  history(options)(builder['form']);
+  return builder['form'];
+};
+
+describe('history plugin', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should undo and redo changes', () => {
+    const form = createForm();
+
+    form.emit('change', 'name', 'Jane');
+    form.emit('change', 'email', 'jane@example.com');
+
+    form.emit('undo');
+    expect(form.getValues()).toEqual({ name: 'Jane', email: '' });
+
+    form.emit('undo');
+    expect(form.getValues()).toEqual({ name: 'John', email: '' });
+
+    form.emit('redo');
+    form.emit('redo');
+    expect(form.getValues()).toEqual({
+      name: 'Jane',
+      email: 'jane@example.com'
+    });
+  });
+
+  it('should group rapid changes of the same field', () => {
+    vi.useFakeTimers();
+    const form = createForm({ groupDelay: 500 });
+
+    form.emit('change', 'name', 'J');
+    vi.advanceTimersByTime(100);
+    form.emit('change', 'name', 'Ja');
+    vi.advanceTimersByTime(100);
+    form.emit('change', 'name', 'Jan');
+    vi.advanceTimersByTime(1000);
+    form.emit('change', 'name', 'Jane');
+
+    form.emit('undo');
+    expect(form.getValue('name')).toBe('Jan');
+
+    form.emit('undo');
+    expect(form.getValue('name')).toBe('John');
+  });
+
+  it('should not group changes of different fields', () => {
+    const form = createForm();
+
+    form.emit('change', 'name', 'Jane');
+    form.emit('change', 'email', 'jane@example.com');
+    form.emit('undo');
+
+    expect(form.getValues()).toEqual({ name: 'Jane', email: '' });
+  });
+
+  it('should record changeMany and reset as single steps', () => {
+    const form = createForm();
+
+    form.emit('changeMany', { name: 'Jane', email: 'jane@example.com' });
+    form.emit('reset');
+    expect(form.getValues()).toEqual({ name: 'John', email: '' });
+
+    form.emit('undo');
+    expect(form.getValues()).toEqual({
+      name: 'Jane',
+      email: 'jane@example.com'
+    });
+
+    form.emit('undo');
+    expect(form.getValues()).toEqual({ name: 'John', email: '' });
+  });
+
+  it('should apply undo and redo through changeMany events', () => {
+    const form = createForm();
+    const changeMany = vi.fn();
+
+    form.emit('change', 'name', 'Jane');
+    form.on('changeMany', changeMany);
+    form.emit('undo');
+
+    expect(changeMany).toHaveBeenCalledWith({ name: 'John', email: '' });
+
+    form.emit('redo');
+
+    expect(changeMany).toHaveBeenLastCalledWith({ name: 'Jane', email: '' });
+    expect(form.getValues()).toEqual({ name: 'Jane', email: '' });
+
+    // Restoring is not recorded as a step of its own
+    form.emit('undo');
+    form.emit('undo');
+
+    expect(form.getValues()).toEqual({ name: 'John', email: '' });
+  });
+
+  it('should let interceptors see undo and redo', () => {
+    const form = createForm();
+
+    form.emit('change', 'name', 'Jane');
+    form.intercept('changeMany', () => {});
+    form.emit('undo');
+
+    expect(form.getValues()).toEqual({ name: 'Jane', email: '' });
+  });
+
+  it('should clear redo steps on a new change', () => {
+    const form = createForm();
+
+    form.emit('change', 'name', 'Jane');
+    form.emit('undo');
+    form.emit('change', 'email', 'john@example.com');
+    form.emit('redo');
+
+    expect(form.getValues()).toEqual({
+      name: 'John',
+      email: 'john@example.com'
+    });
+  });
+
+  it('should keep at most limit steps', () => {
+    const form = createForm({ limit: 2, groupDelay: 0 });
+
+    form.emit('change', 'name', 'A');
+    form.emit('change', 'name', 'B');
+    form.emit('change', 'name', 'C');
+    form.emit('undo');
+    form.emit('undo');
+    form.emit('undo');
+
+    expect(form.getValue('name')).toBe('A');
+  });
+
+  it('should emit historyChange with undo and redo availability', () => {
+    const form = createForm();
+    const historyChange = vi.fn();
+    form.on('historyChange', historyChange);
+
+    form.emit('change', 'name', 'Jane');
+    expect(historyChange).toHaveBeenLastCalledWith(true, false);
+
+    form.emit('undo');
+    expect(historyChange).toHaveBeenLastCalledWith(false, true);
+  });
+
+  it('should expose canUndo and canRedo through hooks', async () => {
+    const { useForm } = fieldwise({ name: 'John' }).use(history()).hooks();
+    const { result } = renderHook(() => useForm());
+
+    expect(result.current.canUndo).toBe(false);
+
+    await act(async () => {
+      result.current.emit('change', 'name', 'Jane');
+    });
+
+    expect(result.current.canUndo).toBe(true);
+    expect(result.current.canRedo).toBe(false);
+
+    await act(async () => {
+      result.current.emit('undo');
+    });
+
+    expect(result.current.fields.name.value).toBe('John');
+    expect(result.current.canUndo).toBe(false);
+    expect(result.current.canRedo).toBe(true);
+  });
+});
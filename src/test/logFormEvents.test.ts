@@ -110,6 +110,17 @@ describe('logFormEvents', () => {
     expect(validatedCall[2]).toEqual({ name: 'Required' }); // errors
   });
 
+  it('should log events that are not listed anywhere', () => {
+    Form.debugMode = true;
+
+    const builder = new FormBuilder({ name: '' });
+    const form = (builder as any).form;
+
+    form.emit('touch', 'name');
+
+    expect(consoleLogSpy).toHaveBeenCalledWith('[Form Event] touch:', 'name');
+  });
+
   it('should log errors event', () => {
     Form.debugMode = true;
 
@@ -0,0 +1,190 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { FormBuilder } from '../fieldwise';
+import { persist, memoryStorage } from '../persist';
+import type { DraftStorage } from '../persist';
+
+type Values = { name: string; password: string };
+
+const initialValues: Values = { name: '', password: '' };
+
+const createForm = (
+  storage: DraftStorage,
+  options: Partial<Parameters<typeof persist<Values>>[0]> = {}
+) => {
+  const builder = new FormBuilder<Values>(initialValues);
+  persist<Values>({ key: 'draft', storage, ...options })(builder['form']);
+  return builder['form'];
+};
+
+const saveDraft = (storage: DraftStorage, draft: object) => {
+  storage.setItem(
+    'draft',
+    JSON.stringify({ version: 1, savedAt: Date.now(), ...draft })
+  );
+};
+
+describe('persist plugin', () => {
+  let storage: DraftStorage;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    storage = memoryStorage();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should save values after changes settle', () => {
+    const form = createForm(storage, { debounce: 300 });
+
+    form.emit('change', 'name', 'J');
+    form.emit('change', 'name', 'John');
+    expect(storage.getItem('draft')).toBe(null);
+
+    vi.advanceTimersByTime(300);
+    expect(JSON.parse(storage.getItem('draft')!)).toMatchObject({
+      version: 1,
+      values: { name: 'John', password: '' }
+    });
+  });
+
+  it('should restore a saved draft and notify subscribers', () => {
+    saveDraft(storage, { values: { name: 'John', password: '' } });
+    const builder = new FormBuilder<Values>(initialValues);
+    const subscriber = vi.fn();
+    builder['form'].subscribeField('name', subscriber);
+
+    persist<Values>({ key: 'draft', storage })(builder['form']);
+
+    expect(builder['form'].getValue('name')).toBe('John');
+    expect(subscriber).toHaveBeenCalledWith(
+      expect.objectContaining({ value: 'John', isDirty: true })
+    );
+  });
+
+  it('should leave excluded fields out of the draft', () => {
+    const form = createForm(storage, { exclude: ['password'] });
+
+    form.emit('changeMany', { name: 'John', password: 'secret' });
+    vi.runAllTimers();
+
+    expect(JSON.parse(storage.getItem('draft')!).values).toEqual({
+      name: 'John'
+    });
+    expect(createForm(storage, { exclude: ['password'] }).getValues()).toEqual({
+      name: 'John',
+      password: ''
+    });
+  });
+
+  it('should save and restore touched state when enabled', () => {
+    const form = createForm(storage, { touched: true });
+
+    form.emit('touch', 'name');
+    vi.runAllTimers();
+
+    const restored = createForm(storage, { touched: true });
+    expect(restored.get('name').isTouched).toBe(true);
+    expect(restored.get('password').isTouched).toBe(false);
+  });
+
+  it('should keep restored values dirty', () => {
+    saveDraft(storage, { values: { name: 'John', password: '' } });
+
+    const form = createForm(storage);
+
+    expect(form.getValues()).toEqual({ name: 'John', password: '' });
+    expect(form.isDirty()).toBe(true);
+    expect(form.getDirtyValues()).toEqual({ name: 'John' });
+    expect(form.get('name').isTouched).toBe(false);
+  });
+
+  it('should migrate drafts of older versions', () => {
+    saveDraft(storage, { version: 1, values: { fullName: 'John' } });
+
+    const form = createForm(storage, {
+      version: 2,
+      migrations: {
+        1: ({ fullName }) => ({ name: fullName, password: '' })
+      }
+    });
+
+    expect(form.getValues()).toEqual({ name: 'John', password: '' });
+  });
+
+  it('should discard drafts that cannot be migrated', () => {
+    saveDraft(storage, { version: 1, values: { fullName: 'John' } });
+
+    const form = createForm(storage, { version: 3, migrations: {} });
+
+    expect(form.getValues()).toEqual(initialValues);
+    expect(storage.getItem('draft')).toBe(null);
+  });
+
+  it('should discard expired drafts', () => {
+    saveDraft(storage, { values: { name: 'John', password: '' } });
+    vi.advanceTimersByTime(2000);
+
+    const form = createForm(storage, { maxAge: 1000 });
+
+    expect(form.getValues()).toEqual(initialValues);
+    expect(storage.getItem('draft')).toBe(null);
+  });
+
+  it('should ignore unreadable drafts', () => {
+    storage.setItem('draft', '{not json');
+
+    const form = createForm(storage);
+
+    expect(form.getValues()).toEqual(initialValues);
+  });
+
+  it('should remove the draft after a successful submit', async () => {
+    const form = createForm(storage);
+
+    form.emit('change', 'name', 'John');
+    vi.runAllTimers();
+    await form.submit();
+
+    expect(storage.getItem('draft')).toBe(null);
+  });
+
+  it('should keep the draft when the submit handler fails', async () => {
+    const form = createForm(storage);
+
+    form.emit('change', 'name', 'John');
+    vi.runAllTimers();
+    await form.submit(async () => {
+      throw new Error('500');
+    });
+
+    expect(JSON.parse(storage.getItem('draft')!).values).toEqual({
+      name: 'John',
+      password: ''
+    });
+  });
+
+  it('should remove the draft on reset', () => {
+    const form = createForm(storage);
+
+    form.emit('change', 'name', 'John');
+    vi.runAllTimers();
+    form.emit('reset');
+    vi.runAllTimers();
+
+    expect(storage.getItem('draft')).toBe(null);
+  });
+
+  it('should save pending changes when the form is disposed', () => {
+    const form = createForm(storage, { debounce: 300 });
+
+    form.emit('change', 'name', 'John');
+    form.dispose();
+
+    expect(JSON.parse(storage.getItem('draft')!).values).toEqual({
+      name: 'John',
+      password: ''
+    });
+  });
+});
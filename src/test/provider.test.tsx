@@ -0,0 +1,202 @@
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, act } from '@testing-library/react';
+import { StrictMode, createElement } from 'react';
+import { renderToString } from 'react-dom/server';
+import { defineForm, FormProvider, useFormInstance } from '../provider';
+import { numberTransform } from '../transforms';
+
+type Values = { title: string };
+
+const NameInput = ({ form }: { form: ReturnType<typeof defineCard> }) => {
+  const { useForm } = useFormInstance(form);
+  const { fields, emit } = useForm();
+
+  return createElement('input', {
+    'aria-label': 'title',
+    value: fields.title.value,
+    onChange: (event: { target: { value: string } }) =>
+      emit('change', 'title', event.target.value)
+  });
+};
+
+const defineCard = () => defineForm<Values>({ title: '' });
+
+const flush = () => act(() => new Promise((resolve) => setTimeout(resolve, 0)));
+
+describe('FormProvider', () => {
+  it('should give each mount its own form', async () => {
+    const card = defineCard();
+    let firstEmit: any;
+
+    const First = () => {
+      firstEmit = useFormInstance(card).useForm().emit;
+      return null;
+    };
+
+    render(
+      createElement(
+        'div',
+        null,
+        createElement(FormProvider<Values>, { form: card }, [
+          createElement(First, { key: 'emit' }),
+          createElement(NameInput, { key: 'input', form: card })
+        ]),
+        createElement(
+          FormProvider<Values>,
+          { form: card },
+          createElement(NameInput, { form: card })
+        )
+      )
+    );
+
+    firstEmit('change', 'title', 'First');
+    await flush();
+
+    const inputs = screen.getAllByLabelText('title') as HTMLInputElement[];
+    expect(inputs.map((input) => input.value)).toEqual(['First', '']);
+  });
+
+  it('should take initial values from props', () => {
+    const card = defineCard();
+
+    render(
+      createElement(
+        FormProvider<Values>,
+        { form: card, initialValues: { title: 'Draft' } },
+        createElement(NameInput, { form: card })
+      )
+    );
+
+    expect((screen.getByLabelText('title') as HTMLInputElement).value).toBe(
+      'Draft'
+    );
+  });
+
+  it('should apply plugins of the definition to each instance', () => {
+    const plugin = vi.fn();
+    const card = defineCard().use(plugin);
+
+    render(
+      createElement(
+        'div',
+        null,
+        createElement(FormProvider<Values>, { form: card }),
+        createElement(FormProvider<Values>, { form: card })
+      )
+    );
+
+    expect(plugin).toHaveBeenCalledTimes(2);
+    expect(plugin.mock.calls[0][0]).not.toBe(plugin.mock.calls[1][0]);
+  });
+
+  it('should give each mount its own element ids', () => {
+    const card = defineForm<Values>({ title: '' }, { id: 'card' });
+    const Label = () =>
+      createElement(
+        'label',
+        useFormInstance(card).useForm().labelProps('title'),
+        'Title'
+      );
+    const tree = () =>
+      createElement(
+        'div',
+        null,
+        createElement(FormProvider<Values>, { form: card }, [
+          createElement(Label, { key: 'label' })
+        ]),
+        createElement(FormProvider<Values>, { form: card }, [
+          createElement(Label, { key: 'label' })
+        ])
+      );
+
+    const html = renderToString(tree());
+    const ids = Array.from(html.matchAll(/for="([^"]+)"/g), (m) => m[1]);
+
+    expect(ids).toHaveLength(2);
+    expect(ids[0]).toMatch(/^card-.+-title$/);
+    expect(ids[1]).not.toBe(ids[0]);
+    // Rendering the same tree again, as on the client, gives the same ids
+    expect(renderToString(tree())).toBe(html);
+  });
+
+  it('should dispose the form on unmount', async () => {
+    const dispose = vi.fn();
+    const card = defineCard().use((form) => {
+      form.on('dispose', dispose);
+    });
+
+    const { unmount } = render(
+      createElement(FormProvider<Values>, { form: card })
+    );
+    expect(dispose).not.toHaveBeenCalled();
+
+    unmount();
+    await flush();
+    expect(dispose).toHaveBeenCalledTimes(1);
+  });
+
+  it('should keep working in strict mode', async () => {
+    const card = defineCard();
+    let emit: any;
+
+    const Title = () => {
+      const { fields, emit: emitFn } = useFormInstance(card).useForm();
+      emit = emitFn;
+      return createElement('span', null, fields.title.value);
+    };
+
+    const { container } = render(
+      createElement(
+        StrictMode,
+        null,
+        createElement(
+          FormProvider<Values>,
+          { form: card },
+          createElement(Title)
+        )
+      )
+    );
+
+    await flush();
+    emit('change', 'title', 'Strict');
+    await flush();
+
+    expect(container.textContent).toBe('Strict');
+  });
+
+  it('should register transforms on each instance', () => {
+    type Scored = { title: string; points: number | null };
+    const card = defineForm<Scored>({ title: '', points: 3 }).transform(
+      'points',
+      numberTransform()
+    );
+    let points = '';
+
+    const Points = () => {
+      points = useFormInstance(card).useForm().i('points').value;
+      return null;
+    };
+
+    render(
+      createElement(
+        FormProvider<Scored, { points: string }>,
+        { form: card },
+        createElement(Points)
+      )
+    );
+
+    expect(points).toBe('3');
+  });
+
+  it('should require a provider', () => {
+    const card = defineCard();
+    const consoleError = vi
+      .spyOn(console, 'error')
+      .mockImplementation(() => {});
+
+    expect(() => render(createElement(NameInput, { form: card }))).toThrow(
+      'useFormInstance must be used inside a FormProvider'
+    );
+    consoleError.mockRestore();
+  });
+});
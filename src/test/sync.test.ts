@@ -0,0 +1,178 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { FormBuilder } from '../fieldwise';
+import { sync } from '../sync';
+import type { SyncMessage, SyncTransport, ConflictPolicy } from '../sync';
+
+type Values = { subject: string; status: string };
+
+const initialValues: Values = { subject: '', status: 'open' };
+
+// Delivers posted messages to every subscriber, the sender included
+const createHub = () => {
+  const listeners = new Set<(message: SyncMessage) => void>();
+  const queue: SyncMessage[] = [];
+  const transport: SyncTransport = {
+    postMessage: (message) => {
+      queue.push(message);
+    },
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    }
+  };
+  const flush = () => {
+    while (queue.length > 0) {
+      const message = queue.shift()!;
+      listeners.forEach((listener) => listener(message));
+    }
+  };
+
+  return { transport, queue, flush };
+};
+
+const createForms = (conflict?: ConflictPolicy) => {
+  const hub = createHub();
+  const [a, b] = [1, 2].map(() => {
+    const builder = new FormBuilder<Values>(initialValues);
+    sync<Values>({ transport: hub.transport, conflict })(builder['form']);
+    return builder['form'];
+  });
+
+  return { hub, a, b };
+};
+
+describe('sync plugin', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should stop syncing once disposed', () => {
+    const { hub, a, b } = createForms();
+
+    b.dispose();
+    a.emit('change', 'subject', 'Login fails');
+    hub.flush();
+
+    expect(b.getValue('subject')).toBe('');
+  });
+
+  it('should apply changes of other forms', () => {
+    const { hub, a, b } = createForms();
+
+    a.emit('change', 'subject', 'Login fails');
+    hub.flush();
+
+    expect(b.getValue('subject')).toBe('Login fails');
+  });
+
+  it('should not send applied remote changes back', () => {
+    const { hub, a, b } = createForms();
+    const change = vi.fn();
+    a.on('change', change);
+
+    a.emit('change', 'subject', 'Login fails');
+    expect(hub.queue).toHaveLength(1);
+
+    hub.flush();
+
+    expect(b.getValue('subject')).toBe('Login fails');
+    expect(hub.queue).toHaveLength(0);
+    expect(change).toHaveBeenCalledTimes(1);
+  });
+
+  it('should sync changeMany and reset', () => {
+    const { hub, a, b } = createForms();
+
+    a.emit('changeMany', { subject: 'Login fails', status: 'pending' });
+    hub.flush();
+    expect(b.getValues()).toEqual({
+      subject: 'Login fails',
+      status: 'pending'
+    });
+
+    a.emit('reset', { subject: 'New ticket', status: 'open' });
+    hub.flush();
+    expect(b.getValues()).toEqual({ subject: 'New ticket', status: 'open' });
+  });
+
+  describe('conflicts', () => {
+    const editBoth = (conflict?: ConflictPolicy) => {
+      vi.useFakeTimers();
+      const forms = createForms(conflict);
+
+      forms.a.emit('change', 'status', 'pending');
+      vi.advanceTimersByTime(100);
+      forms.b.emit('change', 'status', 'closed');
+      forms.hub.flush();
+
+      return forms;
+    };
+
+    it('should keep the latest edit by default', () => {
+      const { a, b } = editBoth();
+
+      expect(a.getValue('status')).toBe('closed');
+      expect(b.getValue('status')).toBe('closed');
+    });
+
+    it('should agree on one winner for edits in the same millisecond', () => {
+      vi.useFakeTimers();
+      const { hub, a, b } = createForms();
+
+      a.emit('change', 'status', 'pending');
+      b.emit('change', 'status', 'closed');
+      hub.flush();
+
+      expect(['pending', 'closed']).toContain(a.getValue('status'));
+      expect(b.getValue('status')).toBe(a.getValue('status'));
+    });
+
+    it('should keep local edits with the local policy', () => {
+      const { a, b } = editBoth('local');
+
+      expect(a.getValue('status')).toBe('pending');
+      expect(b.getValue('status')).toBe('closed');
+    });
+
+    it('should take remote edits with the remote policy', () => {
+      const { a, b } = editBoth('remote');
+
+      expect(a.getValue('status')).toBe('closed');
+      expect(b.getValue('status')).toBe('pending');
+    });
+
+    it('should let a custom policy decide', () => {
+      const policy = vi.fn(({ remoteValue }) =>
+        remoteValue === 'closed' ? 'remote' : 'local'
+      );
+      const { a, b } = editBoth(policy);
+
+      expect(a.getValue('status')).toBe('closed');
+      expect(b.getValue('status')).toBe('closed');
+      expect(policy).toHaveBeenCalledWith(
+        expect.objectContaining({
+          key: 'status',
+          localValue: 'pending',
+          remoteValue: 'closed'
+        })
+      );
+    });
+
+    it('should apply remote edits of other fields', () => {
+      const { hub, a, b } = createForms('local');
+
+      a.emit('change', 'subject', 'Login fails');
+      b.emit('change', 'status', 'closed');
+      hub.flush();
+
+      expect(a.getValues()).toEqual({
+        subject: 'Login fails',
+        status: 'closed'
+      });
+      expect(b.getValues()).toEqual({
+        subject: 'Login fails',
+        status: 'closed'
+      });
+    });
+  });
+});
@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest';
+import {
+  numberTransform,
+  currencyTransform,
+  dateTransform
+} from '../transforms';
+
+describe('transforms', () => {
+  describe('numberTransform', () => {
+    it('should format and parse numbers of the locale', () => {
+      const en = numberTransform({ locale: 'en-US' });
+      const de = numberTransform({ locale: 'de-DE' });
+
+      expect(en.format(1234.5)).toBe('1,234.5');
+      expect(en.parse('1,234.5')).toBe(1234.5);
+      expect(en.parse('-1234')).toBe(-1234);
+      expect(de.format(1234.5)).toBe('1.234,5');
+      expect(de.parse('1.234,5')).toBe(1234.5);
+    });
+
+    it('should treat empty input as null', () => {
+      const transform = numberTransform({ locale: 'en-US' });
+
+      expect(transform.parse('  ')).toBe(null);
+      expect(transform.format(null)).toBe('');
+    });
+
+    it('should reject input that is not a number', () => {
+      const transform = numberTransform({ locale: 'en-US' });
+
+      expect(() => transform.parse('12abc')).toThrow('Must be a number');
+      expect(() => transform.parse('1.2.3')).toThrow('Must be a number');
+    });
+
+    it('should use the given message', () => {
+      const transform = numberTransform({ message: 'Enter an amount' });
+
+      expect(() => transform.parse('abc')).toThrow('Enter an amount');
+    });
+
+    it('should parse percentages as fractions', () => {
+      const transform = numberTransform({ locale: 'en-US', style: 'percent' });
+
+      expect(transform.format(0.25)).toBe('25%');
+      expect(transform.parse('25%')).toBe(0.25);
+    });
+  });
+
+  describe('currencyTransform', () => {
+    it('should format amounts and parse them with or without the symbol', () => {
+      const usd = currencyTransform('USD', { locale: 'en-US' });
+      const eur = currencyTransform('EUR', { locale: 'de-DE' });
+
+      expect(usd.format(1234.5)).toBe('$1,234.50');
+      expect(usd.parse('$1,234.50')).toBe(1234.5);
+      expect(usd.parse('99')).toBe(99);
+      expect(eur.parse(eur.format(1234.5))).toBe(1234.5);
+    });
+  });
+
+  describe('dateTransform', () => {
+    it('should format and parse dates in the order of the locale', () => {
+      const en = dateTransform({ locale: 'en-US' });
+      const de = dateTransform({ locale: 'de-DE' });
+      const date = new Date(2024, 0, 31);
+
+      expect(en.format(date)).toBe('01/31/2024');
+      expect(en.parse('1/31/2024')).toEqual(date);
+      expect(de.format(date)).toBe('31.01.2024');
+      expect(de.parse('31.1.2024')).toEqual(date);
+    });
+
+    it('should reject incomplete and impossible dates', () => {
+      const transform = dateTransform({ locale: 'en-US' });
+
+      expect(() => transform.parse('01/31')).toThrow('Must be a valid date');
+      expect(() => transform.parse('02/31/2024')).toThrow(
+        'Must be a valid date'
+      );
+    });
+
+    it('should treat empty input as null', () => {
+      const transform = dateTransform({ locale: 'en-US' });
+
+      expect(transform.parse('')).toBe(null);
+      expect(transform.format(null)).toBe('');
+    });
+  });
+});
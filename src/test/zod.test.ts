@@ -1,7 +1,8 @@
-import { describe, it, expect } from 'vitest';
+import { describe, it, expect, vi } from 'vitest';
 import { FormBuilder } from '../fieldwise';
 import { zod } from '../zod';
 import { z } from 'zod';
+import { z as z3 } from 'zod/v3';
 
 describe('zod validation plugin', () => {
   it('should validate successfully with valid data', async () => {
@@ -139,7 +140,116 @@ describe('zod validation plugin', () => {
     builder['form'].emit('validate');
     await new Promise((resolve) => setTimeout(resolve, 10));
 
-    // Array validation errors are reported at the field level
-    expect(validatedErrors).toEqual({ items: 'Item required' });
+    // Array validation errors are reported on the item path
+    expect(validatedErrors).toEqual({ 'items.1': 'Item required' });
+  });
+
+  it('should report path-less issues as root errors', async () => {
+    const schema = z
+      .object({
+        email: z.string(),
+        phone: z.string()
+      })
+      .refine((data) => data.email || data.phone, {
+        message: 'Provide an email or a phone'
+      });
+
+    const builder = new FormBuilder({ email: '', phone: '' });
+    zod(schema)(builder['form']);
+
+    let validatedErrors: any = null;
+    builder['form'].once('validated', (_values: any, errors: any) => {
+      validatedErrors = errors;
+    });
+
+    builder['form'].emit('validate');
+    await new Promise((resolve) => setTimeout(resolve, 10));
+
+    expect(validatedErrors).toEqual({ $root: 'Provide an email or a phone' });
+  });
+
+  it('should mark fields that reject empty values as required', () => {
+    const schema = z.object({
+      name: z.string().min(1),
+      nickname: z.string(),
+      age: z.number(),
+      email: z.string().email().optional(),
+      address: z.object({
+        city: z.string().min(1),
+        zip: z.string().nullable()
+      })
+    });
+
+    const builder = new FormBuilder({
+      name: '',
+      nickname: '',
+      age: 0,
+      email: undefined as string | undefined,
+      address: { city: '', zip: null as string | null }
+    });
+    zod(schema)(builder['form']);
+    const form = builder['form'];
+
+    expect(form.isRequired('name')).toBe(true);
+    expect(form.isRequired('nickname')).toBe(false);
+    expect(form.isRequired('age')).toBe(true);
+    expect(form.isRequired('email')).toBe(false);
+    expect(form.isRequired('address')).toBe(false);
+    expect(form.isRequired('address.city')).toBe(true);
+    expect(form.isRequired('address.zip')).toBe(false);
+  });
+
+  it('should infer required fields without running refinements', () => {
+    const refinement = vi.fn(async () => true);
+    const schema = z.object({
+      username: z.string().min(3).refine(refinement),
+      email: z.email(),
+      tags: z.array(z.string()).nonempty(),
+      agreed: z.boolean(),
+      count: z.coerce.number(),
+      role: z.enum(['admin', 'user'])
+    });
+
+    const builder = new FormBuilder({
+      username: '',
+      email: '',
+      tags: [] as string[],
+      agreed: false,
+      count: 0,
+      role: 'user' as 'admin' | 'user'
+    });
+    expect(() => zod(schema)(builder['form'])).not.toThrow();
+    const form = builder['form'];
+
+    expect(refinement).not.toHaveBeenCalled();
+    expect(form.isRequired('username')).toBe(true);
+    expect(form.isRequired('email')).toBe(true);
+    expect(form.isRequired('tags')).toBe(true);
+    expect(form.isRequired('agreed')).toBe(false);
+    expect(form.isRequired('count')).toBe(false);
+    expect(form.isRequired('role')).toBe(true);
+  });
+
+  it('should infer required fields of Zod 3 schemas', () => {
+    const schema = z3.object({
+      name: z3
+        .string()
+        .min(1)
+        .refine(async () => true),
+      email: z3.string().email().optional(),
+      tags: z3.array(z3.string()).nonempty()
+    });
+
+    const builder = new FormBuilder({
+      name: '',
+      email: undefined as string | undefined,
+      tags: [] as string[]
+    });
+    zod(schema)(builder['form']);
+    const form = builder['form'];
+
+    expect(form.isRequired('name')).toBe(true);
+    expect(form.isRequired('email')).toBe(false);
+    expect(form.isRequired('tags')).toBe(true);
   });
 });
@@ -0,0 +1,122 @@
+import type { FieldTransform } from './Form';
+
+export type NumberTransformOptions = Intl.NumberFormatOptions & {
+  /** Defaults to the locale of the runtime. */
+  locale?: string;
+  /** Error for input that is not a number. */
+  message?: string;
+};
+
+export type DateTransformOptions = {
+  /** Defaults to the locale of the runtime. */
+  locale?: string;
+  /** Error for input that is not a date. */
+  message?: string;
+};
+
+const partOf = (
+  formatter: Intl.NumberFormat,
+  value: number,
+  type: Intl.NumberFormatPartTypes
+): string | undefined =>
+  formatter.formatToParts(value).find((part) => part.type === type)?.value;
+
+/**
+ * Formats numbers for the locale, e.g. `1,234.5`, and parses them back,
+ * accepting input with or without group separators. Empty input is `null`.
+ */
+export function numberTransform(
+  options: NumberTransformOptions = {}
+): FieldTransform<number | null> {
+  const { locale, message = 'Must be a number', ...formatOptions } = options;
+  const formatter = new Intl.NumberFormat(locale, formatOptions);
+  const decimal =
+    partOf(
+      new Intl.NumberFormat(locale, { minimumFractionDigits: 1 }),
+      1,
+      'decimal'
+    ) ?? '.';
+  // Parts that don't affect the value, e.g. `$` or `%`
+  const ignored = formatter
+    .formatToParts(-12345.6)
+    .filter((part) =>
+      ['group', 'currency', 'percentSign', 'literal'].includes(part.type)
+    )
+    .map((part) => part.value);
+  const minusSign = partOf(formatter, -1, 'minusSign') ?? '-';
+  const isPercent = formatOptions.style === 'percent';
+
+  return {
+    parse: (input) => {
+      const text = ignored
+        .reduce((acc, part) => acc.split(part).join(''), input)
+        .replace(/\s/g, '')
+        .split(minusSign)
+        .join('-')
+        .split(decimal)
+        .join('.');
+
+      if (text === '') return null;
+      if (!/^-?(\d+\.?\d*|\.\d+)$/.test(text)) throw new Error(message);
+
+      const value = Number(text);
+      return isPercent ? value / 100 : value;
+    },
+    format: (value) =>
+      value === null || value === undefined ? '' : formatter.format(value)
+  };
+}
+
+export function currencyTransform(
+  currency: string,
+  options: NumberTransformOptions = {}
+): FieldTransform<number | null> {
+  return numberTransform({ style: 'currency', currency, ...options });
+}
+
+/**
+ * Formats dates as numeric dates of the locale, e.g. `01/31/2024` or
+ * `31.01.2024`, and parses input with day, month and year in that order.
+ * Empty input is `null`.
+ */
+export function dateTransform(
+  options: DateTransformOptions = {}
+): FieldTransform<Date | null> {
+  const { locale, message = 'Must be a valid date' } = options;
+  const formatter = new Intl.DateTimeFormat(locale, {
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit'
+  });
+  const order = formatter
+    .formatToParts(new Date(2000, 0, 2))
+    .map((part) => part.type)
+    .filter((type) => type === 'year' || type === 'month' || type === 'day');
+
+  return {
+    parse: (input) => {
+      const text = input.trim();
+      if (text === '') return null;
+
+      const numbers = text.split(/\D+/).filter(Boolean).map(Number);
+      if (numbers.length !== order.length) throw new Error(message);
+
+      const parts = Object.fromEntries(
+        order.map((type, i) => [type, numbers[i]])
+      );
+      const date = new Date(parts.year, parts.month - 1, parts.day);
+
+      // Rejects dates such as February 31 that Date would roll over
+      if (
+        date.getFullYear() !== parts.year ||
+        date.getMonth() !== parts.month - 1 ||
+        date.getDate() !== parts.day
+      ) {
+        throw new Error(message);
+      }
+
+      return date;
+    },
+    format: (value) => (value ? formatter.format(value) : '')
+  };
+}
@@ -1,26 +1,165 @@
 import { z } from 'zod';
-import type { Form, Values, Errors } from './Form';
+import { ROOT_KEY } from './Form';
+import type { Form, Values, Errors, Path } from './Form';
 
-export function zod<T extends Values>(schema: z.ZodSchema<T>) {
-  return function (form: Form<T>): void {
-    form.registerValidator((values) => {
-      const result = schema.safeParse(values);
+// Schema definitions are read instead of parsing sample values, which would
+// run refinements and transforms. Zod 4 keeps them in `_zod.def`, Zod 3 in
+// `_def`, where the type is named by `typeName` and `type` is the schema of
+// a branded type.
+type SchemaCheck = {
+  kind?: string;
+  value?: number;
+  _zod?: {
+    def: { check: string; minimum?: number; length?: number; format?: string };
+  };
+};
+type SchemaDef = {
+  typeName?: string;
+  type?: unknown;
+  innerType?: ZodLike;
+  schema?: ZodLike;
+  in?: ZodLike;
+  options?: ZodLike[];
+  values?: unknown[];
+  value?: unknown;
+  coerce?: boolean;
+  format?: string;
+  checks?: SchemaCheck[];
+  minLength?: { value: number } | null;
+  exactLength?: { value: number } | null;
+};
+type ZodLike = {
+  _def?: SchemaDef;
+  _zod?: { def: SchemaDef };
+  shape?: Record<string, ZodLike>;
+};
+
+// String checks of Zod 3 that reject empty strings
+const v3Formats = new Set([
+  'email',
+  'url',
+  'uuid',
+  'cuid',
+  'cuid2',
+  'ulid',
+  'datetime',
+  'date',
+  'time',
+  'ip',
+  'emoji',
+  'nanoid'
+]);
+const emptyValues: unknown[] = [undefined, null, '', false];
 
-      if (result.success) {
-        return null;
+const defOf = (schema: ZodLike): SchemaDef =>
+  schema._zod?.def ?? schema._def ?? {};
+
+const kindOf = (def: SchemaDef): string =>
+  def.typeName
+    ? def.typeName.replace(/^Zod/, '').toLowerCase()
+    : String(def.type);
+
+const minLengthOf = (def: SchemaDef): number =>
+  Math.max(
+    def.minLength?.value ?? 0,
+    def.exactLength?.value ?? 0,
+    ...(def.checks ?? []).map((check) => {
+      const v4 = check._zod?.def;
+      if (v4?.check === 'min_length') return v4.minimum ?? 0;
+      if (v4?.check === 'length_equals') return v4.length ?? 0;
+      if (check.kind === 'min' || check.kind === 'length') {
+        return check.value ?? 0;
       }
+      return 0;
+    })
+  );
+
+const hasFormat = (def: SchemaDef): boolean =>
+  (def.format !== undefined && def.format !== 'regex') ||
+  (def.checks ?? []).some((check) => {
+    const v4 = check._zod?.def;
+    return v4
+      ? v4.check === 'string_format' && v4.format !== 'regex'
+      : v3Formats.has(check.kind ?? '');
+  });
+
+// Whether the schema rejects empty values: undefined, null, '' and false
+const isRequiredSchema = (schema: ZodLike): boolean => {
+  const def = defOf(schema);
 
-      // Validation failed - convert Zod errors to Form format
-      const errors: Errors<T> = {};
+  switch (kindOf(def)) {
+    case 'nonoptional':
+      return true;
+    case 'readonly':
+      return isRequiredSchema(def.innerType!);
+    case 'branded':
+      return isRequiredSchema(def.type as ZodLike);
+    case 'effects':
+      return isRequiredSchema(def.schema!);
+    case 'pipe':
+    case 'pipeline':
+      return isRequiredSchema(def.in!);
+    case 'union':
+      return (def.options ?? []).every(isRequiredSchema);
+    case 'string':
+      return !def.coerce && (minLengthOf(def) > 0 || hasFormat(def));
+    case 'array':
+      return minLengthOf(def) > 0;
+    case 'number':
+    case 'bigint':
+    case 'date':
+      return !def.coerce;
+    case 'enum':
+    case 'nativeenum':
+      return true;
+    case 'literal':
+      return !(def.values ?? [def.value]).some((value) =>
+        emptyValues.includes(value)
+      );
+    default:
+      // Optional, nullable, defaulted, boolean and unknown schemas
+      return false;
+  }
+};
 
-      result.error.issues.forEach((issue) => {
-        const path = issue.path[0];
-        if (path && typeof path === 'string' && !errors[path as keyof T]) {
-          errors[path as keyof T] = issue.message;
+const requiredPaths = (schema: ZodLike, prefix: string = ''): string[] => {
+  const shape = schema.shape;
+  if (!shape || typeof shape !== 'object') return [];
+
+  return Object.entries(shape).flatMap(([key, field]) => {
+    const path = prefix ? `${prefix}.${key}` : key;
+    const nested = requiredPaths(field, path);
+
+    return isRequiredSchema(field) ? [path, ...nested] : nested;
+  });
+};
+
+export function zod<T extends Values>(schema: z.ZodSchema<T>) {
+  return function (form: Form<T>): void {
+    form.registerValidator(
+      (values) => {
+        const result = schema.safeParse(values);
+
+        if (result.success) {
+          return null;
         }
-      });
 
-      return errors;
-    });
+        // Validation failed - convert Zod errors to Form format
+        const errors: Errors<T> = {};
+
+        result.error.issues.forEach((issue) => {
+          // Issues without a path (e.g. object-level refinements) are root errors
+          const path = (issue.path.map(String).join('.') || ROOT_KEY) as
+            | Path<T>
+            | typeof ROOT_KEY;
+          if (!errors[path]) {
+            errors[path] = issue.message;
+          }
+        });
+
+        return errors;
+      },
+      { required: requiredPaths(schema as ZodLike) as Path<T>[] }
+    );
   };
 }